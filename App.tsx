@@ -1,62 +1,240 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { VisionCanvas } from './components/VisionCanvas';
-import { AnalyticsStats } from './types';
-import { GoogleGenAI } from "@google/genai";
+import { EventLogPanel } from './components/EventLogPanel';
+import { DetectionSettingsPanel } from './components/DetectionSettingsPanel';
+import { TimeSeriesPanel } from './components/TimeSeriesPanel';
+import { AlertRulesPanel } from './components/AlertRulesPanel';
+import { ActiveAlert, AlertBanner } from './components/AlertBanner';
+import { CameraOverviewPanel } from './components/CameraOverviewPanel';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { AlertConfig, AlertEvent, AnalysisMode, AnalyticsStats, AssociationMethod, CameraSource, DetectionSession, DetectionSettings, DetectorErrorKind, DetectorHealth, RedactionSettings, RoiEvent } from './types';
+import { DETECTOR_PROVIDERS, getDefaultDetectorId, getDetectorProvider } from './services/detectorRegistry';
+import { DEFAULT_TRACKER_CONFIG } from './utils/tracker';
+import { appendEvents } from './utils/eventLog';
+import { isRecordingSupported } from './utils/canvasRecorder';
+import { INITIAL_DETECTOR_HEALTH } from './services/detectorErrors';
+import { DEFAULT_DETECTION_SETTINGS } from './utils/detectionSettings';
+import { loadAlertConfig, saveAlertConfig } from './utils/alertRules';
+import { postWebhook } from './services/webhookService';
+import { aggregateCameraStats, createCamera, EMPTY_ANALYTICS_STATS, getGridColumns, listCameraZones, MAX_CAMERAS, releaseCamera } from './utils/cameraGrid';
+import { listVideoInputs, openWebcam } from './utils/videoUtils';
+import { loadRedactionSettings, saveRedactionSettings } from './utils/redaction';
+
+const formatDwell = (seconds: number | null) => (seconds === null ? '—' : `${seconds.toFixed(1)}s`);
+
+const HEALTH_STYLES: Record<DetectorHealth['status'], { label: string; className: string; dotClassName: string }> = {
+  idle: { label: 'IDLE', className: 'text-gray-400', dotClassName: 'bg-gray-500' },
+  online: { label: 'ONLINE', className: 'text-neon-green', dotClassName: 'bg-neon-green' },
+  degraded: { label: 'DEGRADED', className: 'text-yellow-400', dotClassName: 'bg-yellow-400' },
+  offline: { label: 'OFFLINE', className: 'text-red-500', dotClassName: 'bg-red-500' },
+};
+
+const ALERT_DISMISS_MS = 10000;
+const MAX_ACTIVE_ALERTS = 4;
+
+// Re-identification gallery windows offered in the controls, seconds
+const REID_WINDOWS = [0, 10, 30, 120];
+
+const ERROR_KIND_LABELS: Record<DetectorErrorKind, string> = {
+  auth: 'Auth error',
+  'rate-limit': 'Rate limited',
+  network: 'Network error',
+  parse: 'Bad response',
+  unknown: 'Error',
+};
 
 export default function App() {
-  const [apiKey, setApiKey] = useState(process.env.API_KEY || '');
-  const [hasAccess, setHasAccess] = useState(!!process.env.API_KEY);
+  const [detectorId, setDetectorId] = useState(getDefaultDetectorId);
+  const detector = getDetectorProvider(detectorId);
+  const [association, setAssociation] = useState<AssociationMethod>(DEFAULT_TRACKER_CONFIG.association);
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(DEFAULT_DETECTION_SETTINGS);
+  const [redaction, setRedaction] = useState<RedactionSettings>(loadRedactionSettings);
+  // Re-identification gallery window in seconds; 0 turns re-identification off
+  const [reidSeconds, setReidSeconds] = useState(DEFAULT_TRACKER_CONFIG.reid.gallerySeconds);
+  const trackerConfig = useMemo(() => ({
+    ...DEFAULT_TRACKER_CONFIG,
+    association,
+    reid: reidSeconds > 0
+      ? { ...DEFAULT_TRACKER_CONFIG.reid, enabled: true, gallerySeconds: reidSeconds }
+      : { ...DEFAULT_TRACKER_CONFIG.reid, enabled: false },
+  }), [association, reidSeconds]);
   
-  // Media State
-  const [videoSource, setVideoSource] = useState<string | MediaStream | null>(null);
-  const [isVideoFile, setIsVideoFile] = useState(false);
+  // Media State: one grid tile per camera; the selected one drives the detail panels
+  const [cameras, setCameras] = useState<CameraSource[]>([]);
+  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
+  const [focusedCameraId, setFocusedCameraId] = useState<string | null>(null);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [webcamDeviceId, setWebcamDeviceId] = useState('');
+  const activeCamera = cameras.find(c => c.id === selectedCameraId) ?? cameras[0] ?? null;
+  const canAddCamera = cameras.length < MAX_CAMERAS;
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [burnInHud, setBurnInHud] = useState(true);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('realtime');
+  const [offlineStep, setOfflineStep] = useState(0.2);
+  const [offlineProgress, setOfflineProgress] = useState<Record<string, number> | null>(null);
+  // Offline stepping only makes sense when every tile is a file
+  const allFiles = cameras.length > 0 && cameras.every(c => c.isVideoFile);
+  const isOffline = analysisMode === 'offline' && allFiles;
   
-  // Stats
-  const [stats, setStats] = useState<AnalyticsStats>({
-    fps: 0,
-    totalObjects: 0,
-    roiEntered: 0,
-    roiExited: 0,
-  });
+  // Stats, per camera
+  const [statsByCamera, setStatsByCamera] = useState<Record<string, AnalyticsStats>>({});
+  const [healthByCamera, setHealthByCamera] = useState<Record<string, DetectorHealth>>({});
+  const stats = (activeCamera && statsByCamera[activeCamera.id]) || EMPTY_ANALYTICS_STATS;
+  const health = (activeCamera && healthByCamera[activeCamera.id]) || INITIAL_DETECTOR_HEALTH;
+  const overview = useMemo(() => aggregateCameraStats(cameras, statsByCamera), [cameras, statsByCamera]);
+  const allZones = useMemo(() => listCameraZones(cameras, statsByCamera), [cameras, statsByCamera]);
+
+  const [events, setEvents] = useState<RoiEvent[]>([]);
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(loadAlertConfig);
+  const [activeAlerts, setActiveAlerts] = useState<ActiveAlert[]>([]);
+  // The canvas loop holds on to handleAlerts, so it reads the webhook settings from a ref
+  const alertConfigRef = useRef(alertConfig);
+
+  useEffect(() => {
+    saveRedactionSettings(redaction);
+  }, [redaction]);
+
+  useEffect(() => {
+    alertConfigRef.current = alertConfig;
+    saveAlertConfig(alertConfig);
+  }, [alertConfig]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setVideoSource(url);
-      setIsVideoFile(true);
+  const addCameras = (added: CameraSource[]) => {
+    if (added.length === 0) return;
+    setCameras(prev => [...prev, ...added]);
+    setSelectedCameraId(added[added.length - 1].id);
+    setFocusedCameraId(null);
+  };
+
+  const removeCamera = (camera: CameraSource) => {
+    releaseCamera(camera);
+    const remaining = cameras.filter(c => c.id !== camera.id);
+    setCameras(remaining);
+    setStatsByCamera(({ [camera.id]: _, ...rest }) => rest);
+    setHealthByCamera(({ [camera.id]: _, ...rest }) => rest);
+    if (focusedCameraId === camera.id) setFocusedCameraId(null);
+    if (remaining.length === 0) {
       setIsProcessing(false);
+      setIsRecording(false);
+      setOfflineProgress(null);
     }
   };
 
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_CAMERAS - cameras.length);
+    e.target.value = ''; // Allow the same file to be added again
+    addCameras(files.map(file => createCamera(file.name, URL.createObjectURL(file), `file:${file.name}:${file.size}`, true)));
+    setOfflineProgress(null);
+  };
+
   const handleWebcamStart = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-      setVideoSource(stream);
-      setIsVideoFile(false);
-      setIsProcessing(false);
+      const stream = await openWebcam(webcamDeviceId);
+      const track = stream.getVideoTracks()[0];
+      const deviceId = track?.getSettings().deviceId;
+      // The default camera keeps the key ROIs were saved under before devices could be chosen
+      const sourceKey = webcamDeviceId && deviceId ? `webcam:${deviceId}` : 'webcam';
+      addCameras([createCamera(track?.label || `Webcam ${cameras.length + 1}`, stream, sourceKey, false)]);
+      // Device labels are only available once access has been granted
+      setVideoDevices(await listVideoInputs());
     } catch (err) {
       console.error("Webcam error:", err);
       alert("Could not access webcam.");
     }
   };
 
+  useEffect(() => {
+    listVideoInputs().then(setVideoDevices).catch(e => console.warn("Could not list cameras:", e));
+  }, []);
+
   const toggleProcessing = () => {
-    if (!videoSource) return;
+    if (cameras.length === 0) return;
+    // The canvas only updates while processing, so a recording ends with it
+    if (isProcessing) setIsRecording(false);
+    // An offline run recounts the file from the start
+    if (!isProcessing && isOffline) {
+      setEvents([]);
+      setOfflineProgress({});
+    }
     setIsProcessing(!isProcessing);
   };
 
-  const updateStats = (newStats: Partial<AnalyticsStats>) => {
-    setStats(prev => ({ ...prev, ...newStats }));
+  const handleOfflineProgress = (cameraId: string, progress: number) => {
+    setOfflineProgress(prev => ({ ...prev, [cameraId]: progress }));
   };
 
-  if (!hasAccess) {
-    // Should ideally not happen if env var is set, but good fallback
-    return <div className="min-h-screen flex items-center justify-center text-white">API Key Required in Environment</div>;
-  }
+  // The run ends once every tile has stepped through its file
+  useEffect(() => {
+    if (!isProcessing || !isOffline || !offlineProgress) return;
+    if (cameras.every(c => offlineProgress[c.id] === 1)) {
+      setIsRecording(false);
+      setIsProcessing(false);
+    }
+  }, [offlineProgress, isProcessing, isOffline, cameras]);
+
+  const offlinePercent = offlineProgress && cameras.length > 0
+    ? Math.round((cameras.reduce((sum, c) => sum + (offlineProgress[c.id] ?? 0), 0) / cameras.length) * 100)
+    : null;
+
+  // Keep whatever was counted so far; the progress bar shows where it stopped
+  const handleOfflineFailed = () => {
+    setIsRecording(false);
+    setIsProcessing(false);
+  };
+
+  // Zone bars are scaled against the busiest zone rather than a fixed cap
+  const maxZoneCount = Math.max(1, ...stats.zones.flatMap(z => [z.entered, z.exited]));
+
+  const updateStats = (cameraId: string, newStats: Partial<AnalyticsStats>) => {
+    setStatsByCamera(prev => ({ ...prev, [cameraId]: { ...(prev[cameraId] ?? EMPTY_ANALYTICS_STATS), ...newStats } }));
+  };
+
+  const updateHealth = (cameraId: string, cameraHealth: DetectorHealth) => {
+    setHealthByCamera(prev => ({ ...prev, [cameraId]: cameraHealth }));
+  };
+
+  // Replays run with the settings they were recorded with; both can be tuned from there
+  const handleSessionLoaded = (session: DetectionSession) => {
+    setAssociation(session.trackerConfig.association);
+    setReidSeconds(session.trackerConfig.reid.enabled ? session.trackerConfig.reid.gallerySeconds : 0);
+    setDetectionSettings(session.detectionSettings);
+  };
+
+  // Each camera's worker numbers its own events, so ids are only unique with the camera id
+  const handleRoiEvents = (camera: CameraSource, newEvents: RoiEvent[]) => {
+    setEvents(prev => appendEvents(prev, newEvents.map(e => ({ ...e, id: `${camera.id}:${e.id}`, cameraName: camera.name }))));
+  };
+
+  const dismissAlert = (id: string) => {
+    setActiveAlerts(prev => prev.filter(a => a.event.id !== id));
+  };
+
+  const setDelivery = (id: string, delivery: ActiveAlert['delivery']) => {
+    setActiveAlerts(prev => prev.map(a => (a.event.id === id ? { ...a, delivery } : a)));
+  };
+
+  // Banners dismiss themselves; webhook failures are shown on the banner, never retried
+  const handleAlerts = (camera: CameraSource, alerts: AlertEvent[]) => {
+    const { webhookUrl, rules } = alertConfigRef.current;
+    const active = alerts.map(cameraAlert => {
+      const event = { ...cameraAlert, id: `${camera.id}:${cameraAlert.id}`, cameraName: camera.name };
+      const sendWebhook = webhookUrl !== '' && rules.some(r => r.id === event.ruleId && r.webhook);
+      if (sendWebhook) {
+        postWebhook(webhookUrl, event)
+          .then(() => setDelivery(event.id, 'sent'))
+          .catch(err => {
+            console.error('Webhook delivery failed:', err);
+            setDelivery(event.id, 'failed');
+          });
+      }
+      setTimeout(() => dismissAlert(event.id), ALERT_DISMISS_MS);
+      return { event, delivery: sendWebhook ? 'pending' : 'none' } as ActiveAlert;
+    });
+    setActiveAlerts(prev => [...active.reverse(), ...prev].slice(0, MAX_ACTIVE_ALERTS));
+  };
 
   return (
     <div className="min-h-screen bg-dark-bg text-gray-200 font-sans selection:bg-neon-blue selection:text-black flex flex-col">
@@ -72,6 +250,38 @@ export default function App() {
         </div>
         
         <div className="flex items-center gap-4">
+           {cameras.length > 0 && (
+             <div className="flex items-center gap-2 text-xs">
+               <span className="text-gray-500 font-mono">{cameras.length}/{MAX_CAMERAS} cameras</span>
+               <button
+                 onClick={() => fileInputRef.current?.click()}
+                 disabled={!canAddCamera}
+                 className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white disabled:opacity-50"
+               >
+                 + Video
+               </button>
+               <button
+                 onClick={handleWebcamStart}
+                 disabled={!canAddCamera}
+                 className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white disabled:opacity-50"
+               >
+                 + Webcam
+               </button>
+             </div>
+           )}
+           {videoDevices.length > 1 && (
+             <select
+               value={webcamDeviceId}
+               onChange={(e) => setWebcamDeviceId(e.target.value)}
+               title="Camera used by the webcam buttons"
+               className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white max-w-[12rem]"
+             >
+               <option value="">Default camera</option>
+               {videoDevices.map((d, i) => (
+                 <option key={d.deviceId || i} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>
+               ))}
+             </select>
+           )}
            <div className="flex items-center gap-2 text-sm">
              <span className={`w-2 h-2 rounded-full ${isProcessing ? 'bg-neon-green animate-pulse' : 'bg-red-500'}`}></span>
              {isProcessing ? 'System Active' : 'System Idle'}
@@ -85,13 +295,70 @@ export default function App() {
         {/* Left/Top: Video Canvas Area (Span 3 cols) */}
         <section className="lg:col-span-3 flex flex-col gap-4 h-full relative">
           <div className="flex-1 bg-black rounded-xl border border-gray-800 shadow-2xl relative overflow-hidden group">
-            {videoSource ? (
-              <VisionCanvas 
-                source={videoSource}
-                isVideoFile={isVideoFile}
-                isProcessing={isProcessing}
-                onStatsUpdate={updateStats}
-              />
+            {cameras.length > 0 ? (
+              <div
+                className="absolute inset-0 grid gap-1 p-1"
+                style={{
+                  gridTemplateColumns: `repeat(${focusedCameraId ? 1 : getGridColumns(cameras.length)}, minmax(0, 1fr))`,
+                  gridAutoRows: 'minmax(0, 1fr)',
+                }}
+              >
+                {cameras.map(camera => {
+                  const isSelected = camera.id === activeCamera?.id;
+                  const cameraHealth = healthByCamera[camera.id] ?? INITIAL_DETECTOR_HEALTH;
+                  // Unfocused tiles stay mounted so their trackers keep running
+                  const isHidden = focusedCameraId !== null && focusedCameraId !== camera.id;
+                  return (
+                    <div
+                      key={camera.id}
+                      onMouseDownCapture={() => setSelectedCameraId(camera.id)}
+                      className={`flex flex-col min-h-0 rounded-lg border ${isSelected && cameras.length > 1 ? 'border-neon-blue' : 'border-transparent'} ${isHidden ? 'hidden' : ''}`}
+                    >
+                      <div className="flex items-center gap-2 px-2 h-7 text-xs bg-gray-900 rounded-t-lg">
+                        <span className={`w-2 h-2 rounded-full ${HEALTH_STYLES[cameraHealth.status].dotClassName}`}></span>
+                        <span className="text-white truncate flex-1" title={camera.name}>{camera.name}</span>
+                        <span className="text-gray-500 font-mono">{statsByCamera[camera.id]?.totalObjects ?? 0} obj</span>
+                        {cameras.length > 1 && (
+                          <button
+                            onClick={() => setFocusedCameraId(focusedCameraId ? null : camera.id)}
+                            title={focusedCameraId ? 'Back to grid' : 'Show full size'}
+                            className="text-gray-400 hover:text-white"
+                          >
+                            {focusedCameraId ? '⊞' : '⤢'}
+                          </button>
+                        )}
+                        <button onClick={() => removeCamera(camera)} title="Remove camera" className="text-gray-400 hover:text-red-400">✕</button>
+                      </div>
+                      <div className="flex-1 min-h-0">
+                        <VisionCanvas 
+                          source={camera.source}
+                          sourceKey={camera.sourceKey}
+                          isVideoFile={camera.isVideoFile}
+                          isProcessing={isProcessing}
+                          detectorId={detectorId}
+                          detectionSettings={detectionSettings}
+                          redaction={redaction}
+                          trackerConfig={trackerConfig}
+                          isRecording={isRecording && isSelected}
+                          burnInHud={burnInHud}
+                          analysisMode={isOffline ? 'offline' : 'realtime'}
+                          offlineStep={offlineStep}
+                          isActive={isSelected}
+                          onStatsUpdate={(s) => updateStats(camera.id, s)}
+                          onRoiEvents={(e) => handleRoiEvents(camera, e)}
+                          onOfflineProgress={(p) => handleOfflineProgress(camera.id, p)}
+                          onOfflineComplete={() => handleOfflineProgress(camera.id, 1)}
+                          onOfflineFailed={handleOfflineFailed}
+                          onHealthChange={(h) => updateHealth(camera.id, h)}
+                          alertRules={alertConfig.rules}
+                          onAlerts={(a) => handleAlerts(camera, a)}
+                          onSessionLoaded={handleSessionLoaded}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
             ) : (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 gap-4">
                  <p className="text-lg">Select a video source to begin analysis</p>
@@ -111,9 +378,11 @@ export default function App() {
                  </div>
               </div>
             )}
+            <AlertBanner alerts={activeAlerts} onDismiss={dismissAlert} />
             <input 
               type="file" 
               accept="video/*" 
+              multiple
               ref={fileInputRef} 
               className="hidden" 
               onChange={handleFileUpload}
@@ -124,7 +393,7 @@ export default function App() {
           <div className="h-16 bg-panel-bg rounded-lg border border-gray-800 flex items-center px-6 gap-6">
             <button
                onClick={toggleProcessing}
-               disabled={!videoSource}
+               disabled={cameras.length === 0}
                className={`px-6 py-2 rounded font-bold transition flex items-center gap-2 ${
                  isProcessing 
                    ? 'bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30' 
@@ -133,12 +402,94 @@ export default function App() {
             >
               {isProcessing ? 'STOP ANALYSIS' : 'START ANALYSIS'}
             </button>
+
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <select
+                value={analysisMode}
+                onChange={(e) => setAnalysisMode(e.target.value as AnalysisMode)}
+                disabled={!allFiles || isProcessing}
+                title="Offline mode steps through every file and waits for each detection"
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white disabled:opacity-50"
+              >
+                <option value="realtime">Real-time</option>
+                <option value="offline">Offline</option>
+              </select>
+              {isOffline && (
+                <>
+                  <input
+                    type="number"
+                    min={0.04}
+                    step={0.04}
+                    value={offlineStep}
+                    onChange={(e) => setOfflineStep(Math.max(0.04, Number(e.target.value) || 0.2))}
+                    disabled={isProcessing}
+                    className="w-16 bg-gray-800 border border-gray-700 rounded px-1 py-1 text-white"
+                  />
+                  <span>s/step</span>
+                  {offlinePercent !== null && (
+                    <span className="font-mono text-neon-blue">{offlinePercent}%</span>
+                  )}
+                </>
+              )}
+            </div>
+
+            <button
+               onClick={() => setIsRecording(!isRecording)}
+               disabled={!isProcessing || !isRecordingSupported()}
+               title={isRecordingSupported() ? 'Record the annotated canvas to WebM' : 'Recording is not supported in this browser'}
+               className={`px-4 py-2 rounded font-bold transition flex items-center gap-2 border ${
+                 isRecording
+                   ? 'bg-red-500/20 text-red-400 border-red-500/50 hover:bg-red-500/30'
+                   : 'bg-gray-800 text-white border-gray-700 hover:bg-gray-700'
+               } disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              <span className={`w-2 h-2 rounded-full bg-red-500 ${isRecording ? 'animate-pulse' : ''}`}></span>
+              {isRecording ? 'STOP' : 'RECORD'}
+            </button>
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={burnInHud}
+                onChange={(e) => setBurnInHud(e.target.checked)}
+              />
+              Burn-in HUD
+            </label>
             
             <div className="h-8 w-px bg-gray-700 mx-2"></div>
 
-            <div className="flex gap-4 text-sm text-gray-400">
-               <div>Model: <span className="text-white">Gemini 2.5 Flash</span></div>
+            <div className="flex gap-4 text-sm text-gray-400 items-center">
+               <div>Model: <span className="text-white">{detector.name}</span></div>
+               <select
+                 value={detectorId}
+                 onChange={(e) => setDetectorId(e.target.value)}
+                 className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+               >
+                 {DETECTOR_PROVIDERS.map(p => (
+                   <option key={p.id} value={p.id} disabled={p.id === 'gemini' && !process.env.API_KEY}>
+                     {p.name}
+                   </option>
+                 ))}
+               </select>
                <div>Tracker: <span className="text-white">Sort-Sim</span></div>
+               <select
+                 value={association}
+                 onChange={(e) => setAssociation(e.target.value as AssociationMethod)}
+                 className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+               >
+                 <option value="hungarian">Hungarian (IoU + distance)</option>
+                 <option value="greedy">Greedy (nearest)</option>
+               </select>
+               <select
+                 value={reidSeconds}
+                 onChange={(e) => setReidSeconds(Number(e.target.value))}
+                 title="How long a lost track can be recognized by its appearance"
+                 className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+               >
+                 {!REID_WINDOWS.includes(reidSeconds) && <option value={reidSeconds}>Re-ID {reidSeconds}s</option>}
+                 {REID_WINDOWS.map(s => (
+                   <option key={s} value={s}>{s === 0 ? 'Re-ID off' : `Re-ID ${s}s`}</option>
+                 ))}
+               </select>
             </div>
           </div>
         </section>
@@ -149,63 +500,154 @@ export default function App() {
           {/* Stats Cards */}
           <div className="grid grid-cols-2 gap-4">
              <div className="bg-panel-bg p-4 rounded-xl border border-gray-800">
-               <div className="text-gray-500 text-xs uppercase tracking-wider mb-1">Live FPS</div>
+               <div className="text-gray-500 text-xs uppercase tracking-wider mb-1">Render FPS</div>
                <div className="text-2xl font-mono text-neon-green">{stats.fps}</div>
              </div>
              <div className="bg-panel-bg p-4 rounded-xl border border-gray-800">
                <div className="text-gray-500 text-xs uppercase tracking-wider mb-1">Objects</div>
-               <div className="text-2xl font-mono text-white">{stats.totalObjects}</div>
+               <div className="text-2xl font-mono text-white">{overview.totals.objects}</div>
+               {overview.totals.reidentifications > 0 && (
+                 <div className="text-xs text-gray-500 font-mono" title="Lost tracks recovered by appearance">
+                   {overview.totals.reidentifications} re-identified
+                 </div>
+               )}
              </div>
           </div>
 
+          {cameras.length > 1 && (
+            <CameraOverviewPanel
+              totals={overview.totals}
+              cameras={overview.cameras}
+              selectedId={activeCamera?.id ?? null}
+              onSelect={setSelectedCameraId}
+            />
+          )}
+
           <div className="bg-panel-bg p-6 rounded-xl border border-gray-800 flex-1 flex flex-col">
-            <h3 className="text-lg font-bold text-white mb-6 border-b border-gray-800 pb-4">ROI Analytics</h3>
+            <h3 className="text-lg font-bold text-white mb-6 border-b border-gray-800 pb-4 flex justify-between items-baseline gap-2">
+              ROI Analytics
+              {cameras.length > 1 && activeCamera && (
+                <span className="text-xs font-normal text-neon-blue truncate">{activeCamera.name}</span>
+              )}
+            </h3>
             
-            <div className="flex flex-col gap-8">
-              <div className="relative">
-                 <div className="flex justify-between items-end mb-2">
-                   <span className="text-gray-400">Entered</span>
-                   <span className="text-3xl font-bold text-neon-blue">{stats.roiEntered}</span>
-                 </div>
-                 <div className="w-full bg-gray-800 h-2 rounded-full overflow-hidden">
-                   <div className="bg-neon-blue h-full transition-all duration-500" style={{ width: `${Math.min((stats.roiEntered / 50) * 100, 100)}%` }}></div>
-                 </div>
-              </div>
+            <div className="flex flex-col gap-6">
+              {stats.zones.length === 0 && (
+                <p className="text-sm text-gray-500">No zones defined yet.</p>
+              )}
+              {stats.zones.map(zone => (
+                <div key={zone.zoneId} className="relative">
+                   <div className="flex justify-between items-center mb-2">
+                     <span className="flex items-center gap-2 text-white font-semibold">
+                       <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: zone.color }}></span>
+                       {zone.name}
+                     </span>
+                     <span className="text-xs text-gray-400">Inside: <span className="text-white font-mono">{zone.occupancy}</span></span>
+                   </div>
+                   <div className="grid grid-cols-2 gap-3">
+                     <div>
+                       <div className="flex justify-between items-end mb-1">
+                         <span className="text-gray-400 text-xs">Entered</span>
+                         <span className="text-xl font-bold text-neon-blue">{zone.entered}</span>
+                       </div>
+                       <div className="w-full bg-gray-800 h-2 rounded-full overflow-hidden">
+                         <div className="bg-neon-blue h-full transition-all duration-500" style={{ width: `${(zone.entered / maxZoneCount) * 100}%` }}></div>
+                       </div>
+                     </div>
+                     <div>
+                       <div className="flex justify-between items-end mb-1">
+                         <span className="text-gray-400 text-xs">Exited</span>
+                         <span className="text-xl font-bold text-neon-red">{zone.exited}</span>
+                       </div>
+                       <div className="w-full bg-gray-800 h-2 rounded-full overflow-hidden">
+                         <div className="bg-neon-red h-full transition-all duration-500" style={{ width: `${(zone.exited / maxZoneCount) * 100}%` }}></div>
+                       </div>
+                     </div>
+                   </div>
+                   <div className="grid grid-cols-3 gap-2 mt-3 text-xs font-mono">
+                     <div className="text-gray-500">Avg <span className="text-white">{formatDwell(zone.avgDwell)}</span></div>
+                     <div className="text-gray-500">Med <span className="text-white">{formatDwell(zone.medianDwell)}</span></div>
+                     <div className="text-gray-500">Max <span className="text-white">{formatDwell(zone.maxDwell)}</span></div>
+                   </div>
+                </div>
+              ))}
+            </div>
 
-              <div className="relative">
-                 <div className="flex justify-between items-end mb-2">
-                   <span className="text-gray-400">Exited</span>
-                   <span className="text-3xl font-bold text-neon-red">{stats.roiExited}</span>
-                 </div>
-                 <div className="w-full bg-gray-800 h-2 rounded-full overflow-hidden">
-                   <div className="bg-neon-red h-full transition-all duration-500" style={{ width: `${Math.min((stats.roiExited / 50) * 100, 100)}%` }}></div>
-                 </div>
+            {stats.lines.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-gray-800">
+                <h4 className="text-sm font-bold text-white mb-3">Line Crossings</h4>
+                <div className="flex flex-col gap-2">
+                  {stats.lines.map(line => (
+                    <div key={line.lineId} className="flex justify-between items-center text-sm">
+                      <span className="flex items-center gap-2 text-gray-300">
+                        <span className="w-3 h-1 rounded-sm" style={{ backgroundColor: line.color }}></span>
+                        {line.name}
+                      </span>
+                      <span className="font-mono">
+                        <span className="text-neon-blue">A→B {line.countAB}</span>
+                        <span className="text-gray-600 mx-2">|</span>
+                        <span className="text-neon-red">B→A {line.countBA}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
 
             <div className="mt-auto pt-6 text-xs text-gray-500">
               <p className="mb-2"><strong>Instructions:</strong></p>
               <ul className="list-disc pl-4 space-y-1">
-                <li>Upload video or use Webcam.</li>
-                <li>Click <strong>Edit ROI</strong> to define a counting zone.</li>
-                <li>Click points on video to draw polygon.</li>
-                <li>Click <strong>Start Analysis</strong> to run Gemini Detection.</li>
+                <li>Upload videos or add webcams; each becomes a tile in the camera grid. Click a tile to show its details, or ⤢ to view it full size.</li>
+                <li>Click <strong>Edit ROI</strong> to define counting zones.</li>
+                <li>Name a zone, then click points on video to draw its polygon. Drag points to move them, click an edge to insert one, right-click to delete.</li>
+                <li>Zones and tripwires are saved per video; use <strong>Export</strong>/<strong>Import</strong> to share them.</li>
+                <li>Click <strong>Tripwires</strong> and click two points to add a directional counting line.</li>
+                <li>Click <strong>Calibrate</strong>, click four ground points and enter their positions in meters to get speeds in km/h.</li>
+                <li>Click <strong>Start Analysis</strong> to run detection with the selected model.</li>
               </ul>
             </div>
           </div>
 
+          <TimeSeriesPanel bins={stats.timeSeries} />
+
+          <AlertRulesPanel config={alertConfig} zones={allZones} onChange={setAlertConfig} />
+
+          <DetectionSettingsPanel settings={detectionSettings} onChange={setDetectionSettings} />
+
+          <PrivacyPanel settings={redaction} onChange={setRedaction} />
+
+          <EventLogPanel events={events} onClear={() => setEvents([])} />
+
           <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 text-xs font-mono text-gray-500">
             <div className="flex justify-between mb-1">
-               <span>System Status:</span>
-               <span className="text-neon-green">ONLINE</span>
+               <span>Detector{cameras.length > 1 && activeCamera ? ` (${activeCamera.name})` : ''}:</span>
+               <span className={HEALTH_STYLES[health.status].className}>{HEALTH_STYLES[health.status].label}</span>
             </div>
+            {health.lastError && health.status !== 'online' && (
+              <div className="mb-1 text-red-400 break-words">
+                {ERROR_KIND_LABELS[health.lastError.kind]}: {health.lastError.message}
+                {health.consecutiveFailures > 1 && ` (x${health.consecutiveFailures})`}
+              </div>
+            )}
             <div className="flex justify-between mb-1">
                <span>Resolution:</span>
                <span>Auto (640px)</span>
+            </div>
+            <div className="flex justify-between mb-1">
+               <span>Detection FPS:</span>
+               <span>{stats.pipeline.detectionFps.toFixed(1)}</span>
+            </div>
+            <div className="flex justify-between mb-1">
+               <span>Latency p50 / p95:</span>
+               <span>{Math.round(stats.pipeline.latencyP50)} / {Math.round(stats.pipeline.latencyP95)} ms</span>
+            </div>
+            <div className="flex justify-between mb-1">
+               <span>Interval / In flight:</span>
+               <span>{Math.round(stats.pipeline.intervalMs)} ms / {stats.pipeline.inFlight}</span>
             </div>
              <div className="flex justify-between">
-               <span>Latency:</span>
-               <span>~200ms</span>
+               <span>Dropped (busy / stale):</span>
+               <span>{stats.pipeline.droppedBusy} / {stats.pipeline.droppedStale}</span>
             </div>
           </div>
 
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertEvent } from '../types';
+
+export type WebhookDelivery = 'none' | 'pending' | 'sent' | 'failed';
+
+export interface ActiveAlert {
+  event: AlertEvent;
+  delivery: WebhookDelivery;
+}
+
+interface AlertBannerProps {
+  alerts: ActiveAlert[];
+  onDismiss: (id: string) => void;
+}
+
+const DELIVERY_LABELS: Record<WebhookDelivery, string> = {
+  none: '',
+  pending: 'webhook…',
+  sent: 'webhook ✓',
+  failed: 'webhook failed',
+};
+
+export const AlertBanner: React.FC<AlertBannerProps> = ({ alerts, onDismiss }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 flex flex-col gap-2 w-[min(90%,32rem)]">
+      {alerts.map(({ event, delivery }) => (
+        <div
+          key={event.id}
+          className="flex items-start gap-3 bg-red-950/90 border border-red-500 text-red-100 rounded-lg px-4 py-2 shadow-lg text-sm"
+        >
+          <span className="text-red-400">⚠</span>
+          <div className="flex-1">
+            <div className="font-bold">
+              {event.ruleName}
+              {event.cameraName && <span className="font-normal text-red-300"> · {event.cameraName}</span>}
+            </div>
+            <div className="text-xs text-red-200">{event.message}</div>
+          </div>
+          {delivery !== 'none' && (
+            <span className={`text-xs font-mono ${delivery === 'failed' ? 'text-yellow-300' : 'text-red-300'}`}>
+              {DELIVERY_LABELS[delivery]}
+            </span>
+          )}
+          <button onClick={() => onDismiss(event.id)} className="text-red-300 hover:text-white">✕</button>
+        </div>
+      ))}
+    </div>
+  );
+};
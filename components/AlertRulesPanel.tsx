@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertConfig, AlertRule, ZoneStats } from '../types';
+import { createAlertRule, describeCondition } from '../utils/alertRules';
+
+interface AlertRulesPanelProps {
+  config: AlertConfig;
+  zones: ZoneStats[];
+  onChange: (config: AlertConfig) => void;
+}
+
+type ConditionType = AlertCondition['type'];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  'occupancy': 'Occupancy above N for T s',
+  'zone-entry': 'Label enters zone',
+  'count-rate': 'Entries per minute above N',
+};
+
+const inputClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white';
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ config, zones, onChange }) => {
+  const [type, setType] = useState<ConditionType>('occupancy');
+  const [zoneId, setZoneId] = useState('');
+  const [label, setLabel] = useState('');
+  const [threshold, setThreshold] = useState(3);
+  const [duration, setDuration] = useState(10);
+  const [cooldown, setCooldown] = useState(60);
+  const [webhookUrl, setWebhookUrl] = useState(config.webhookUrl);
+
+  const buildCondition = (): AlertCondition => {
+    switch (type) {
+      case 'occupancy':
+        return { type, zoneId, threshold, durationSeconds: duration };
+      case 'zone-entry':
+        return { type, zoneId, label: label.trim() };
+      case 'count-rate':
+        return { type, zoneId, threshold };
+    }
+  };
+
+  const addRule = () => {
+    const condition = buildCondition();
+    const rule = { ...createAlertRule(condition, describeCondition(condition, zones)), cooldownSeconds: cooldown };
+    onChange({ ...config, rules: [...config.rules, rule] });
+  };
+
+  const updateRule = (id: string, update: Partial<AlertRule>) => {
+    onChange({ ...config, rules: config.rules.map(r => (r.id === id ? { ...r, ...update } : r)) });
+  };
+
+  const deleteRule = (id: string) => {
+    onChange({ ...config, rules: config.rules.filter(r => r.id !== id) });
+  };
+
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3 text-xs">
+      <h3 className="text-sm font-bold text-white">Alert Rules</h3>
+
+      <label className="flex flex-col gap-1 text-gray-400">
+        Webhook URL
+        <input
+          type="url"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          onBlur={() => onChange({ ...config, webhookUrl: webhookUrl.trim() })}
+          placeholder="https://example.com/hooks/vision (optional)"
+          className={inputClass}
+        />
+      </label>
+
+      {config.rules.length === 0 && (
+        <div className="text-gray-600 italic text-center py-1">No rules yet.</div>
+      )}
+      {config.rules.map(rule => (
+        <div key={rule.id} className="flex items-center gap-2 bg-gray-800/50 rounded px-2 py-1">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+            className="accent-neon-blue"
+          />
+          <span className={`flex-1 ${rule.enabled ? 'text-white' : 'text-gray-500'}`}>
+            {rule.name}
+            <span className="text-gray-500"> · {rule.cooldownSeconds}s cooldown</span>
+          </span>
+          <label className="flex items-center gap-1 text-gray-400" title="POST to the webhook when this rule fires">
+            <input
+              type="checkbox"
+              checked={rule.webhook}
+              onChange={(e) => updateRule(rule.id, { webhook: e.target.checked })}
+              className="accent-neon-blue"
+            />
+            hook
+          </label>
+          <button onClick={() => deleteRule(rule.id)} className="text-gray-400 hover:text-red-400">✕</button>
+        </div>
+      ))}
+
+      <div className="flex flex-col gap-2 border-t border-gray-800 pt-3">
+        <select value={type} onChange={(e) => setType(e.target.value as ConditionType)} className={inputClass}>
+          {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(t => (
+            <option key={t} value={t}>{CONDITION_LABELS[t]}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select value={zoneId} onChange={(e) => setZoneId(e.target.value)} className={`flex-1 ${inputClass}`}>
+            <option value="">Any zone</option>
+            {zones.map(z => <option key={z.zoneId} value={z.zoneId}>{z.name}</option>)}
+          </select>
+          {type === 'zone-entry' ? (
+            <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Any label" className={`flex-1 ${inputClass}`} />
+          ) : (
+            <input
+              type="number"
+              min={0}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              title="N"
+              className={`w-16 ${inputClass}`}
+            />
+          )}
+          {type === 'occupancy' && (
+            <input
+              type="number"
+              min={0}
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              title="T (seconds)"
+              className={`w-16 ${inputClass}`}
+            />
+          )}
+        </div>
+        <div className="flex gap-2 items-center text-gray-400">
+          Cooldown
+          <input
+            type="number"
+            min={0}
+            value={cooldown}
+            onChange={(e) => setCooldown(Number(e.target.value))}
+            className={`w-16 ${inputClass}`}
+          />
+          s
+          <button
+            onClick={addRule}
+            className="ml-auto px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white"
+          >
+            + Add Rule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
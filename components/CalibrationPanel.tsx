@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { GroundCalibration, SpeedLimits } from '../types';
+import { formatSpeedLimits, parseSpeedLimits } from '../utils/speedEstimation';
+
+interface CalibrationPanelProps {
+  calibration: GroundCalibration;
+  isCalibrated: boolean;
+  speedLimits: SpeedLimits;
+  onChange: (calibration: GroundCalibration) => void;
+  onSpeedLimitsChange: (limits: SpeedLimits) => void;
+  onDone: () => void;
+}
+
+type Axis = 'x' | 'y';
+
+// Empty or partly typed fields ("", "-") are not numbers yet
+const parseCoord = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) ? value : null;
+};
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  calibration,
+  isCalibrated,
+  speedLimits,
+  onChange,
+  onSpeedLimitsChange,
+  onDone,
+}) => {
+  const [limitsText, setLimitsText] = useState(formatSpeedLimits(speedLimits));
+  // Coordinates as typed, while their field is being edited
+  const [coordText, setCoordText] = useState<Record<string, string>>({});
+  const placed = calibration.imagePoints.length;
+
+  // Recalibrate only once the field holds a number
+  const setWorldCoord = (index: number, axis: Axis, text: string) => {
+    setCoordText(prev => ({ ...prev, [`${index}${axis}`]: text }));
+    const value = parseCoord(text);
+    if (value === null) return;
+    const worldPoints = calibration.worldPoints.map((p, i) => (i === index ? { ...p, [axis]: value } : p));
+    onChange({ ...calibration, worldPoints });
+  };
+
+  // Leaving the field shows the value in use again
+  const endWorldCoordEdit = (index: number, axis: Axis) => {
+    setCoordText(prev => {
+      const { [`${index}${axis}`]: _edited, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bg-black/70 text-neon-blue px-3 py-2 rounded border border-neon-blue text-xs font-mono flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <span className={placed < 4 ? 'animate-pulse' : ''}>
+          {placed < 4 ? `Click ground point ${placed + 1} of 4.` : isCalibrated ? 'Calibrated.' : 'Points are collinear; move one.'}
+        </span>
+        <button
+          onClick={(e) => { e.stopPropagation(); onChange({ ...calibration, imagePoints: [] }); }}
+          className="text-white hover:text-red-400 underline"
+        >
+          Clear
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onDone(); }}
+          className="text-white hover:text-green-400 underline"
+        >
+          Done
+        </button>
+      </div>
+
+      {/* World position of each clicked point, in meters */}
+      {calibration.worldPoints.map((p, i) => (
+        <div key={i} className={`flex items-center gap-2 ${i < placed ? 'text-white' : 'text-gray-500'}`}>
+          <span>P{i + 1}</span>
+          X
+          <input
+            type="number"
+            step="0.1"
+            value={coordText[`${i}x`] ?? p.x}
+            onChange={(e) => setWorldCoord(i, 'x', e.target.value)}
+            onBlur={() => endWorldCoordEdit(i, 'x')}
+            className="w-16 bg-gray-900 border border-gray-700 rounded px-1 text-white"
+          />
+          Y
+          <input
+            type="number"
+            step="0.1"
+            value={coordText[`${i}y`] ?? p.y}
+            onChange={(e) => setWorldCoord(i, 'y', e.target.value)}
+            onBlur={() => endWorldCoordEdit(i, 'y')}
+            className="w-16 bg-gray-900 border border-gray-700 rounded px-1 text-white"
+          />
+          m
+        </div>
+      ))}
+
+      <label className="flex flex-col gap-1">
+        Speed limits (km/h)
+        <input
+          value={limitsText}
+          onChange={(e) => setLimitsText(e.target.value)}
+          onBlur={() => onSpeedLimitsChange(parseSpeedLimits(limitsText))}
+          placeholder="person: 8, car: 30"
+          className="bg-gray-900 border border-gray-700 rounded px-1 text-white placeholder-gray-500"
+        />
+      </label>
+    </div>
+  );
+};
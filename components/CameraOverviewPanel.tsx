@@ -0,0 +1,64 @@
+import React from 'react';
+import { CameraSummary, CameraTotals } from '../utils/cameraGrid';
+
+interface CameraOverviewPanelProps {
+  totals: CameraTotals;
+  cameras: CameraSummary[];
+  selectedId: string | null;
+  onSelect: (cameraId: string) => void;
+}
+
+const TOTAL_CARDS: { key: keyof CameraTotals; label: string; className: string }[] = [
+  { key: 'objects', label: 'Objects', className: 'text-white' },
+  { key: 'occupancy', label: 'Inside', className: 'text-yellow-400' },
+  { key: 'entered', label: 'Entered', className: 'text-neon-blue' },
+  { key: 'exited', label: 'Exited', className: 'text-neon-red' },
+  { key: 'crossings', label: 'Crossings', className: 'text-gray-200' },
+];
+
+export const CameraOverviewPanel: React.FC<CameraOverviewPanelProps> = ({ totals, cameras, selectedId, onSelect }) => {
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-white">All Cameras</h3>
+        <span className="text-xs text-gray-500 font-mono">{cameras.length} live</span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 text-center">
+        {TOTAL_CARDS.map(card => (
+          <div key={card.key}>
+            <div className={`text-lg font-mono ${card.className}`}>{totals[card.key]}</div>
+            <div className="text-[10px] text-gray-500 uppercase">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal">Camera</th>
+            <th className="font-normal text-right">Obj</th>
+            <th className="font-normal text-right">In</th>
+            <th className="font-normal text-right">Out</th>
+            <th className="font-normal text-right">FPS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cameras.map(c => (
+            <tr
+              key={c.cameraId}
+              onClick={() => onSelect(c.cameraId)}
+              className={`cursor-pointer hover:bg-gray-800 ${c.cameraId === selectedId ? 'text-neon-blue' : 'text-gray-300'}`}
+            >
+              <td className="truncate max-w-[8rem] py-0.5" title={c.name}>{c.name}</td>
+              <td className="text-right">{c.objects}</td>
+              <td className="text-right">{c.entered}</td>
+              <td className="text-right">{c.exited}</td>
+              <td className="text-right">{c.fps}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
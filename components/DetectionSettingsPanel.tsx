@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { DetectionSettings } from '../types';
+import { parseClassList } from '../utils/detectionSettings';
+import { getTrackColor } from '../utils/mathUtils';
+
+interface DetectionSettingsPanelProps {
+  settings: DetectionSettings;
+  onChange: (settings: DetectionSettings) => void;
+}
+
+export const DetectionSettingsPanel: React.FC<DetectionSettingsPanelProps> = ({ settings, onChange }) => {
+  // The class list is edited as text and parsed when the field is committed
+  const [classText, setClassText] = useState(settings.targetClasses.join(', '));
+  const [prompt, setPrompt] = useState(settings.promptOverride);
+
+  useEffect(() => {
+    setClassText(settings.targetClasses.join(', '));
+  }, [settings.targetClasses]);
+
+  useEffect(() => {
+    setPrompt(settings.promptOverride);
+  }, [settings.promptOverride]);
+
+  const commitClasses = () => {
+    const targetClasses = parseClassList(classText);
+    // Give new classes a color straight away so they can be told apart
+    const classColors = { ...settings.classColors };
+    targetClasses.forEach((c, i) => {
+      if (!classColors[c]) classColors[c] = getTrackColor(i + 1);
+    });
+    onChange({ ...settings, targetClasses, classColors });
+  };
+
+  const setClassColor = (name: string, color: string) => {
+    onChange({ ...settings, classColors: { ...settings.classColors, [name]: color } });
+  };
+
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3 text-xs">
+      <h3 className="text-sm font-bold text-white">Detection Settings</h3>
+
+      <label className="flex flex-col gap-1 text-gray-400">
+        Target classes
+        <input
+          type="text"
+          value={classText}
+          onChange={(e) => setClassText(e.target.value)}
+          onBlur={commitClasses}
+          onKeyDown={(e) => e.key === 'Enter' && commitClasses()}
+          placeholder="All classes (e.g. person, forklift)"
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-gray-400">
+        Prompt override
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onBlur={() => onChange({ ...settings, promptOverride: prompt })}
+          rows={2}
+          placeholder="e.g. Find every person wearing a hi-vis vest"
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white resize-none"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-gray-400">
+        <span className="flex justify-between">
+          Min confidence
+          <span className="font-mono text-white">{settings.minConfidence.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.minConfidence}
+          onChange={(e) => onChange({ ...settings, minConfidence: Number(e.target.value) })}
+          className="accent-neon-blue"
+        />
+      </label>
+
+      {settings.targetClasses.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {settings.targetClasses.map(name => (
+            <label key={name} className="flex items-center gap-1 bg-gray-800 rounded px-2 py-1 text-white">
+              <input
+                type="color"
+                value={settings.classColors[name] ?? '#00f3ff'}
+                onChange={(e) => setClassColor(name, e.target.value)}
+                className="w-4 h-4 bg-transparent border-0 p-0"
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
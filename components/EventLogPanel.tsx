@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { RoiEvent } from '../types';
+import { EventFilter, eventsToCsv, filterEvents } from '../utils/eventLog';
+import { downloadJson, downloadText, fileTimestamp } from '../utils/exportUtils';
+
+interface EventLogPanelProps {
+  events: RoiEvent[];
+  onClear: () => void;
+}
+
+const formatVideoTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+export const EventLogPanel: React.FC<EventLogPanelProps> = ({ events, onClear }) => {
+  const [filter, setFilter] = useState<EventFilter>({ label: '', zoneId: '' });
+
+  const labels = useMemo(() => Array.from(new Set(events.map(e => e.label))).sort(), [events]);
+  const zones = useMemo(() => {
+    const byId = new Map(events.map(e => [e.zoneId, e.zoneName]));
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [events]);
+  const visible = useMemo(() => filterEvents(events, filter), [events, filter]);
+  // Camera names are only worth the space once events come from several tiles
+  const showCamera = useMemo(() => new Set(events.map(e => e.cameraName)).size > 1, [events]);
+
+  const exportCsv = () => {
+    downloadText(eventsToCsv(visible), `roi-events-${fileTimestamp()}.csv`, 'text/csv');
+  };
+
+  const exportJson = () => {
+    downloadJson(visible, `roi-events-${fileTimestamp()}.json`);
+  };
+
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-white">Event Log</h3>
+        <span className="text-xs text-gray-500 font-mono">{visible.length}/{events.length}</span>
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <select
+          value={filter.label}
+          onChange={(e) => setFilter(f => ({ ...f, label: e.target.value }))}
+          className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+        >
+          <option value="">All labels</option>
+          {labels.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <select
+          value={filter.zoneId}
+          onChange={(e) => setFilter(f => ({ ...f, zoneId: e.target.value }))}
+          className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+        >
+          <option value="">All zones</option>
+          {zones.map(z => <option key={z.id} value={z.id}>{z.name}</option>)}
+        </select>
+      </div>
+
+      <div className="h-48 overflow-y-auto font-mono text-xs border border-gray-800 rounded">
+        {visible.length === 0 ? (
+          <p className="text-gray-600 p-2">No events yet.</p>
+        ) : (
+          [...visible].reverse().map(e => (
+            <div key={e.id} className="flex gap-2 px-2 py-1 border-b border-gray-800/60">
+              <span className="text-gray-500">
+                {e.videoTime !== undefined ? formatVideoTime(e.videoTime) : new Date(e.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={e.type === 'enter' ? 'text-neon-blue' : 'text-neon-red'}>
+                {e.type === 'enter' ? 'IN ' : 'OUT'}
+              </span>
+              <span className="text-white">#{e.trackId} {e.label}</span>
+              <span className="text-gray-400 truncate">
+                {showCamera && e.cameraName ? `${e.cameraName} · ${e.zoneName}` : e.zoneName}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <button
+          onClick={exportCsv}
+          disabled={visible.length === 0}
+          className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={exportJson}
+          disabled={visible.length === 0}
+          className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={onClear}
+          disabled={events.length === 0}
+          className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-gray-400 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { FrameMode, RedactionSettings, RedactionStyle } from '../types';
+import { parseClassList } from '../utils/detectionSettings';
+
+interface PrivacyPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+}
+
+const FRAME_MODES: { id: FrameMode; label: string }[] = [
+  { id: 'full', label: 'Full frame' },
+  { id: 'downscaled', label: 'Downscaled' },
+  { id: 'hidden', label: 'Overlays only' },
+];
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, onChange }) => {
+  const [labelText, setLabelText] = useState(settings.labels.join(', '));
+
+  useEffect(() => {
+    setLabelText(settings.labels.join(', '));
+  }, [settings.labels]);
+
+  const update = (change: Partial<RedactionSettings>) => onChange({ ...settings, ...change });
+
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3 text-xs">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-white">Privacy</h3>
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-neon-blue"
+          />
+          Redact
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-gray-400">
+        Redacted classes
+        <input
+          type="text"
+          value={labelText}
+          onChange={(e) => setLabelText(e.target.value)}
+          onBlur={() => update({ labels: parseClassList(labelText) })}
+          onKeyDown={(e) => e.key === 'Enter' && update({ labels: parseClassList(labelText) })}
+          placeholder="e.g. person, license plate"
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+        />
+      </label>
+
+      <div className="flex gap-2 items-center text-gray-400">
+        <select
+          value={settings.style}
+          onChange={(e) => update({ style: e.target.value as RedactionStyle })}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+        >
+          <option value="pixelate">Pixelate</option>
+          <option value="blur">Blur</option>
+        </select>
+        <span>Strength</span>
+        <input
+          type="range"
+          min={4}
+          max={48}
+          step={2}
+          value={settings.blockSize}
+          onChange={(e) => update({ blockSize: Number(e.target.value) })}
+          className="flex-1 accent-neon-blue"
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 text-gray-400">
+        Raw frame
+        <div className="flex gap-1">
+          {FRAME_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => update({ frameMode: mode.id })}
+              className={`flex-1 px-2 py-1 rounded ${settings.frameMode === mode.id ? 'bg-neon-blue text-black' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-gray-500">
+        Applied on screen, to recordings and to snapshots. Frames are still sent to the detector unredacted.
+      </p>
+    </div>
+  );
+};
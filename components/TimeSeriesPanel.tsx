@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { TimeBin } from '../types';
+import { downloadJson, downloadText, fileTimestamp } from '../utils/exportUtils';
+import { getTrackColor } from '../utils/mathUtils';
+import { getSeriesClasses, selectWindow, seriesToCsv, SeriesPoint, TIME_WINDOWS, TimeWindowId } from '../utils/timeSeries';
+
+interface TimeSeriesPanelProps {
+  bins: TimeBin[];
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+const formatOffset = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return s >= 60 ? `${Math.floor(s / 60)}m${(s % 60).toString().padStart(2, '0')}` : `${s}s`;
+};
+
+// Polyline of one value per point, scaled to `max`
+const toPath = (points: SeriesPoint[], value: (p: SeriesPoint) => number, max: number) => {
+  const step = points.length > 1 ? CHART_WIDTH / (points.length - 1) : 0;
+  return points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${(i * step).toFixed(1)},${(CHART_HEIGHT - (value(p) / max) * CHART_HEIGHT).toFixed(1)}`)
+    .join(' ');
+};
+
+export const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ bins }) => {
+  const [windowId, setWindowId] = useState<TimeWindowId>('1m');
+  const { binMs, points } = useMemo(() => selectWindow(bins, windowId), [bins, windowId]);
+  const classes = useMemo(() => getSeriesClasses(points), [points]);
+
+  const maxObjects = Math.max(1, ...points.flatMap(p => [p.occupancy, ...Object.values(p.objectsByClass)]));
+  // Entries/exits are charted per minute so the axis reads the same in every window
+  const perMinute = binMs > 0 ? 60_000 / binMs : 1;
+  const maxFlow = Math.max(1, ...points.flatMap(p => [p.entries, p.exits]).map(n => n * perMinute));
+  const barWidth = points.length > 0 ? CHART_WIDTH / points.length : 0;
+  const span = points.length > 0 ? points[points.length - 1].start + binMs - points[0].start : 0;
+
+  const exportCsv = () => {
+    downloadText(seriesToCsv(points, binMs), `time-series-${windowId}-${fileTimestamp()}.csv`, 'text/csv');
+  };
+
+  const exportJson = () => {
+    downloadJson({ window: windowId, binSeconds: binMs / 1000, points }, `time-series-${windowId}-${fileTimestamp()}.json`);
+  };
+
+  return (
+    <div className="bg-panel-bg p-4 rounded-xl border border-gray-800 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-white">Trends</h3>
+        <div className="flex gap-1 text-xs">
+          {TIME_WINDOWS.map(w => (
+            <button
+              key={w.id}
+              onClick={() => setWindowId(w.id)}
+              className={`px-2 py-0.5 rounded ${windowId === w.id ? 'bg-neon-blue text-black' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-gray-600 text-xs italic text-center py-4">No data yet. Start analysis to collect trends.</div>
+      ) : (
+        <>
+          {/* Objects per class and zone occupancy (mean per bin) */}
+          <div>
+            <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+              <span>Objects / occupancy</span>
+              <span className="font-mono">max {maxObjects.toFixed(1)}</span>
+            </div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-900 rounded">
+              {classes.map((label, i) => (
+                <path
+                  key={label}
+                  d={toPath(points, p => p.objectsByClass[label] ?? 0, maxObjects)}
+                  fill="none"
+                  stroke={getTrackColor(i + 1)}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              <path
+                d={toPath(points, p => p.occupancy, maxObjects)}
+                fill="none"
+                stroke="#ffcc00"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            <div className="flex flex-wrap gap-x-3 mt-1 text-[10px]">
+              {classes.map((label, i) => (
+                <span key={label} style={{ color: getTrackColor(i + 1) }}>■ {label}</span>
+              ))}
+              <span className="text-yellow-400">┅ occupancy</span>
+            </div>
+          </div>
+
+          {/* Zone entries (up) and exits (down) per minute */}
+          <div>
+            <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+              <span>Entries / exits per min ({formatOffset(binMs)} bins)</span>
+              <span className="font-mono">max {Number(maxFlow.toFixed(1))}</span>
+            </div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-900 rounded">
+              <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} stroke="#374151" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              {points.map((p, i) => {
+                const up = ((p.entries * perMinute) / maxFlow) * (CHART_HEIGHT / 2);
+                const down = ((p.exits * perMinute) / maxFlow) * (CHART_HEIGHT / 2);
+                return (
+                  <g key={p.start}>
+                    <rect x={i * barWidth + barWidth * 0.1} y={CHART_HEIGHT / 2 - up} width={barWidth * 0.8} height={up} fill="#00ff9d" />
+                    <rect x={i * barWidth + barWidth * 0.1} y={CHART_HEIGHT / 2} width={barWidth * 0.8} height={down} fill="#ff0055" />
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          <div className="flex gap-2 items-center text-xs">
+            <span className="text-gray-500 font-mono mr-auto">{formatOffset(span)} shown</span>
+            <button
+              onClick={exportCsv}
+              className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={exportJson}
+              className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-700 text-white"
+            >
+              Export JSON
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,45 +1,286 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { AnalyticsStats, DetectionStatus, Point, TrackedObject } from '../types';
-import { detectObjectsInFrame } from '../services/geminiService';
-import { isPointInPolygon, updateTracks, getBoxCenter } from '../utils/mathUtils';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { AlertEvent, AlertRule, AnalysisMode, AnalyticsStats, DetectionResult, DetectionSession, DetectionSettings, DetectionStatus, DetectorHealth, DetectorProvider, GroundCalibration, Point, RedactionSettings, RoiDefinition, RoiEvent, RoiZone, SessionFrame, SpeedLimits, TimeBin, TrackerConfig, Tripwire } from '../types';
+import { CalibrationPanel } from './CalibrationPanel';
+import { AnalysisClient } from '../workers/analysisClient';
+import { EMPTY_RENDER_STATE, RenderState, StatsUpdate } from '../utils/analysisEngine';
+import { patchBins } from '../utils/timeSeries';
+import { captureFrameBitmap, JPEG_QUALITY } from '../utils/frameEncoding';
+import { buildZoneStats, createZone } from '../utils/roiAnalytics';
+import { CanvasRecording, startCanvasRecording } from '../utils/canvasRecorder';
+import { downloadBlob, downloadJson, downloadText, fileTimestamp } from '../utils/exportUtils';
+import { drawHud } from '../utils/hudRenderer';
+import { formatMot, groupMotByFrame, MotRecord, MOT_FRAME_RATE, parseMot, videoTimeToMotFrame } from '../utils/motFormat';
+import { seekVideo, waitForMetadata } from '../utils/videoUtils';
+import { DetectionScheduler } from '../utils/frameScheduler';
+import { getTrackDisplayColor, withRedactionClasses } from '../utils/detectionSettings';
+import { clientToNormalized, ContentRect, deleteVertex, EditHistory, emptyHistory, getContentRect, hitTestPolygon, insertVertex, loadRoiDefinition, moveVertex, parseRoiDefinition, pushHistory, redoHistory, saveRoiDefinition, undoHistory } from '../utils/roiEditor';
+import { EMPTY_CALIBRATION, getCalibrationHomography, isSpeeding } from '../utils/speedEstimation';
+import { advanceReplay, appendSessionFrame, INITIAL_REPLAY_CURSOR, parseDetectionSession, ReplayCursor, splitReplayPasses } from '../utils/detectionSession';
+import { drawSourceFrame, getRedactionBoxes, redactRegions, toPixelRects } from '../utils/redaction';
+import { createHeatmap, Heatmap, heatmapToJson, renderHeatmapImage } from '../utils/heatmap';
+import { createDetectorProvider } from '../services/detectorRegistry';
+import { classifyDetectorError, INITIAL_DETECTOR_HEALTH, recordDetectorFailure, recordDetectorSuccess } from '../services/detectorErrors';
+import { buildLineStats, createTripwire } from '../utils/tripwireAnalytics';
+
+type EditMode = 'none' | 'zones' | 'lines' | 'calibration';
+
+// Pixels for appearance crops: a frame the worker kept after encoding it, or a new capture
+type AppearanceFrame = { frameId: number } | { bitmap: Promise<ImageBitmap | null> };
 
 interface VisionCanvasProps {
   source: string | MediaStream | null;
+  sourceKey: string; // Stable name for the source, used to save its ROI definition
   isVideoFile: boolean;
   isProcessing: boolean;
+  detectorId: string;
+  detectionSettings: DetectionSettings;
+  redaction: RedactionSettings;
+  trackerConfig: TrackerConfig;
+  alertRules: AlertRule[];
+  isRecording: boolean;
+  burnInHud: boolean;
+  analysisMode: AnalysisMode;
+  offlineStep: number; // Seconds between analysed frames in offline mode
+  isActive?: boolean; // Only the selected grid tile takes keyboard shortcuts
   onStatsUpdate: (stats: Partial<AnalyticsStats>) => void;
+  onRoiEvents: (events: RoiEvent[]) => void;
+  onAlerts?: (alerts: AlertEvent[]) => void;
+  onOfflineProgress?: (progress: number) => void;
+  onOfflineComplete?: () => void;
+  onOfflineFailed?: () => void; // Detector gave up mid-run (after retries)
+  onHealthChange?: (health: DetectorHealth) => void;
+  onSessionLoaded?: (session: DetectionSession) => void; // A recorded session was opened for replay
 }
 
 export const VisionCanvas: React.FC<VisionCanvasProps> = ({ 
   source, 
+  sourceKey,
   isVideoFile, 
   isProcessing,
-  onStatsUpdate 
+  detectorId,
+  detectionSettings,
+  redaction,
+  trackerConfig,
+  alertRules,
+  isRecording,
+  burnInHud,
+  analysisMode,
+  offlineStep,
+  isActive = true,
+  onStatsUpdate,
+  onRoiEvents,
+  onAlerts,
+  onOfflineProgress,
+  onOfflineComplete,
+  onOfflineFailed,
+  onHealthChange,
+  onSessionLoaded
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // ROI State
-  const [roiPoints, setRoiPoints] = useState<Point[]>([]);
-  const [isDrawingRoi, setIsDrawingRoi] = useState(false);
+  const [zones, setZones] = useState<RoiZone[]>([]);
+  const [activeZoneId, setActiveZoneId] = useState<string | null>(null);
+  const [newZoneName, setNewZoneName] = useState('');
+  const [editMode, setEditMode] = useState<EditMode>('none');
+
+  // Ground-plane calibration for real-world speed and distance
+  const [calibration, setCalibration] = useState<GroundCalibration>(EMPTY_CALIBRATION);
+  const [speedLimits, setSpeedLimits] = useState<SpeedLimits>({});
+  const homography = useMemo(() => getCalibrationHomography(calibration), [calibration]);
+  const activeZone = zones.find(z => z.id === activeZoneId) ?? null;
+
+  // Tripwire State
+  const [lines, setLines] = useState<Tripwire[]>([]);
+  const [activeLineId, setActiveLineId] = useState<string | null>(null);
+  const [pendingLineStart, setPendingLineStart] = useState<Point | null>(null);
+
+  // ROI editor: undo history over zones + lines, and the vertex being dragged.
+  // The dragged zone is only drawn until the drag ends, then committed once.
+  const [roiHistory, setRoiHistory] = useState<EditHistory<RoiDefinition>>(emptyHistory);
+  const dragRef = useRef<{ index: number; zone: RoiZone; changed: boolean } | null>(null);
+  const [draggedZone, setDraggedZone] = useState<RoiZone | null>(null);
+  const shownZones = draggedZone ? zones.map(z => (z.id === draggedZone.id ? draggedZone : z)) : zones;
+  const roiInputRef = useRef<HTMLInputElement>(null);
   
-  // Tracking State
-  const [tracks, setTracks] = useState<TrackedObject[]>([]);
-  const [roiCounts, setRoiCounts] = useState({ entered: 0, exited: 0 });
-  const tracksRef = useRef<TrackedObject[]>([]); // Ref for animation loop access
-  const roiCountsRef = useRef({ entered: 0, exited: 0 });
+  // Tracking State: tracking and analytics run in a worker; the animation loop
+  // draws from the latest render state it sent back
+  const analysisRef = useRef<AnalysisClient | null>(null);
+  const renderStateRef = useRef<RenderState>(EMPTY_RENDER_STATE);
+  const analysisEpochRef = useRef(0); // Bumped on reset; older worker results are dropped
+  const applyQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const timeSeriesRef = useRef<TimeBin[]>([]); // Mirror of the worker's time series, kept current by patches
+  const nextFrameIdRef = useRef(1);
+  const recordingRef = useRef<CanvasRecording | null>(null);
+
+  // Imported MOTChallenge ground truth
+  const groundTruthRef = useRef<Map<number, MotRecord[]> | null>(null);
+  const [groundTruthName, setGroundTruthName] = useState<string | null>(null);
+  const gtInputRef = useRef<HTMLInputElement>(null);
+  // Detector results of this run, and a loaded session replayed instead of calling the detector
+  const sessionFramesRef = useRef<SessionFrame[]>([]);
+  const [replaySession, setReplaySession] = useState<{ name: string; session: DetectionSession } | null>(null);
+  const replayRef = useRef<{ passes: SessionFrame[][]; cursor: ReplayCursor }>({ passes: [], cursor: INITIAL_REPLAY_CURSOR });
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  // Long-term density of track centers as last sent by the worker, and its rendered image cached by version
+  const heatmapRef = useRef<Heatmap>(createHeatmap());
+  const heatmapImageRef = useRef<{ heatmap: Heatmap; version: number; image: HTMLCanvasElement } | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
 
   // Processing Loop State
   const requestRef = useRef<number>();
-  const lastProcessTimeRef = useRef<number>(0);
-  const frameCountRef = useRef(0);
-  const fpsRef = useRef(0);
-  const processingInterval = 200; // Process AI every 200ms (5 FPS AI limit for stability)
+  const schedulerRef = useRef(new DetectionScheduler());
+  const lastMetricsTimeRef = useRef(0);
+  const metricsInterval = 500; // Push pipeline metrics to the dashboard twice a second
+  const healthRef = useRef<DetectorHealth>(INITIAL_DETECTOR_HEALTH);
+  const detectorRef = useRef<DetectorProvider | null>(null);
+  if (!detectorRef.current) detectorRef.current = createDetectorProvider(detectorId);
+
+  // One analysis worker per tile, for as long as the tile is mounted
+  useEffect(() => {
+    const analysis = new AnalysisClient();
+    analysisRef.current = analysis;
+    return () => {
+      analysis.terminate();
+      analysisRef.current = null;
+    };
+  }, []);
+
+  // The worker gets the settings again on every change; tracks survive tracker config changes
+  useEffect(() => {
+    analysisRef.current?.send({
+      type: 'configure',
+      settings: {
+        zones, lines, alertRules, detectionSettings, trackerConfig, homography, isVideoFile,
+        includeHeatmap: showHeatmap,
+        redactionLabels: redaction.enabled ? redaction.labels : [],
+      },
+    });
+  }, [zones, lines, alertRules, detectionSettings, trackerConfig, homography, isVideoFile, showHeatmap, redaction]);
+
+  const resetAnalytics = () => {
+    analysisEpochRef.current++;
+    analysisRef.current?.send({ type: 'reset' });
+    renderStateRef.current = EMPTY_RENDER_STATE;
+    timeSeriesRef.current = [];
+    sessionFramesRef.current = [];
+    replayRef.current = { ...replayRef.current, cursor: INITIAL_REPLAY_CURSOR };
+    schedulerRef.current = new DetectionScheduler();
+    heatmapRef.current = createHeatmap();
+    onStatsUpdate({ totalObjects: 0, reidentifications: 0, zones: buildZoneStats(zones, {}, []), lines: buildLineStats(lines, {}), timeSeries: [] });
+  };
+
+  // Only notify the dashboard when the health state actually changes
+  const setHealth = (health: DetectorHealth) => {
+    if (health === healthRef.current) return;
+    healthRef.current = health;
+    onHealthChange?.(health);
+  };
+
+  const reportDetectionFailure = (error: unknown) => {
+    const detectorError = classifyDetectorError(error);
+    console.error(`Detection failed (${detectorError.kind}):`, detectorError.message);
+    setHealth(recordDetectorFailure(healthRef.current, detectorError, Date.now()));
+  };
+
+  useEffect(() => {
+    setHealth(INITIAL_DETECTOR_HEALTH);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [detectorId]);
+
+  // A detector instance of our own for each run, so a scripted detector starts
+  // from the top and isn't advanced by other tiles
+  useEffect(() => {
+    detectorRef.current = createDetectorProvider(detectorId);
+  }, [detectorId, isProcessing]);
+
+  // Load the ROI saved for this source, or start empty
+  useEffect(() => {
+    const saved = loadRoiDefinition(sourceKey);
+    setZones(saved?.zones ?? []);
+    setLines(saved?.lines ?? []);
+    setActiveZoneId(saved?.zones[0]?.id ?? null);
+    setActiveLineId(saved?.lines[0]?.id ?? null);
+    setRoiHistory(emptyHistory());
+  }, [sourceKey]);
+
+  useEffect(() => {
+    saveRoiDefinition(sourceKey, { zones, lines });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zones, lines]);
+
+  // Undo/redo can bring back or remove the selected zone or line
+  useEffect(() => {
+    if (activeZoneId && !zones.some(z => z.id === activeZoneId)) setActiveZoneId(zones[0]?.id ?? null);
+    if (activeLineId && !lines.some(l => l.id === activeLineId)) setActiveLineId(lines[0]?.id ?? null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zones, lines]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes while editing
+  useEffect(() => {
+    if (!isActive || (editMode !== 'zones' && editMode !== 'lines')) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRoi();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRoi();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Each source gets a fresh tracker so IDs and counts don't leak between videos
+  useEffect(() => {
+    resetAnalytics();
+    groundTruthRef.current = null;
+    setGroundTruthName(null);
+    setReplaySession(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source]);
+
+  // Keep the dashboard's zone and line lists in sync while they are edited.
+  // Runs after the configure effect above, so the worker already has them.
+  useEffect(() => {
+    const epoch = analysisEpochRef.current;
+    analysisRef.current?.call('getStats', null).then(update => {
+      if (epoch !== analysisEpochRef.current) return;
+      const { zones: zoneStats = [], lines: lineStats = [] } = update.stats;
+      renderStateRef.current = { ...renderStateRef.current, zones: zoneStats, lines: lineStats };
+      publishStats(update);
+    }).catch(e => console.error('Could not refresh zone stats', e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zones, lines]);
 
-  // Sync ref with state
+  // The worker only sends the heatmap while it is shown; fetch it when it's turned on
   useEffect(() => {
-    tracksRef.current = tracks;
-  }, [tracks]);
+    if (!showHeatmap) return;
+    analysisRef.current?.call('getHeatmap', null).then(heatmap => {
+      heatmapRef.current = heatmap;
+    }).catch(e => console.error('Could not load heatmap', e));
+  }, [showHeatmap]);
+
+  // Record the annotated canvas while `isRecording` is set; download on stop
+  useEffect(() => {
+    if (isRecording && canvasRef.current && !recordingRef.current) {
+      recordingRef.current = startCanvasRecording(canvasRef.current);
+    } else if (!isRecording && recordingRef.current) {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      recording.stop().then(blob => downloadBlob(blob, `vision-tracker-${fileTimestamp()}.webm`));
+    }
+  }, [isRecording]);
+
+  // Don't leave an encoder running if the canvas goes away mid-recording
+  useEffect(() => () => {
+    recordingRef.current?.stop();
+    recordingRef.current = null;
+  }, []);
 
   useEffect(() => {
     if (videoRef.current && source) {
@@ -52,30 +293,297 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
     }
   }, [source, isVideoFile]);
 
-  // Handle Canvas Clicks for ROI
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawingRoi) return;
-    
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    
-    // Get coordinates normalized to video/canvas dimensions
-    // We work in 0-1000 scale for internal logic to match Gemini
-    const x = ((e.clientX - rect.left) / rect.width) * 1000;
-    const y = ((e.clientY - rect.top) / rect.height) * 1000;
-    
-    setRoiPoints(prev => [...prev, { x, y }]);
-  };
-
-  const processFrame = async () => {
-    if (!videoRef.current || !canvasRef.current || !isProcessing) return;
+  // Apply an ROI edit, keeping the previous zones and lines for undo
+  const commitRoi = (next: RoiDefinition) => {
+    setRoiHistory(h => pushHistory(h, { zones, lines }));
+    setZones(next.zones);
+    setLines(next.lines);
+  };
 
-    const now = performance.now();
+  const undoRoi = () => {
+    const result = undoHistory(roiHistory, { zones, lines });
+    if (!result) return;
+    setRoiHistory(result.history);
+    setZones(result.value.zones);
+    setLines(result.value.lines);
+  };
+
+  const redoRoi = () => {
+    const result = redoHistory(roiHistory, { zones, lines });
+    if (!result) return;
+    setRoiHistory(result.history);
+    setZones(result.value.zones);
+    setLines(result.value.lines);
+  };
+
+  const addZone = (name: string) => {
+    const zone = createZone(name.trim() || `Zone ${zones.length + 1}`, zones.length);
+    commitRoi({ zones: [...zones, zone], lines });
+    setActiveZoneId(zone.id);
+    setNewZoneName('');
+  };
+
+  const updateActiveZone = (update: (zone: RoiZone) => RoiZone) => {
+    commitRoi({ zones: zones.map(z => (z.id === activeZoneId ? update(z) : z)), lines });
+  };
+
+  const deleteActiveZone = () => {
+    if (!activeZoneId) return;
+    // The worker drops the zone's counts once it gets the new zone list
+    const rest = zones.filter(z => z.id !== activeZoneId);
+    commitRoi({ zones: rest, lines });
+    setActiveZoneId(rest[0]?.id ?? null);
+  };
+
+  const startEditingZones = () => {
+    if (zones.length === 0) addZone('Zone 1');
+    else if (!activeZone) setActiveZoneId(zones[0].id);
+    setEditMode('zones');
+  };
+
+  const deleteActiveLine = () => {
+    if (!activeLineId) return;
+    const rest = lines.filter(l => l.id !== activeLineId);
+    commitRoi({ zones, lines: rest });
+    setActiveLineId(rest[0]?.id ?? null);
+  };
+
+  const exportRoi = () => {
+    downloadJson({ zones, lines }, `roi-${fileTimestamp()}.json`);
+  };
+
+  const importRoi = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const definition = parseRoiDefinition(JSON.parse(await file.text()));
+      commitRoi(definition);
+      setActiveZoneId(definition.zones[0]?.id ?? null);
+      setActiveLineId(definition.lines[0]?.id ?? null);
+    } catch (err) {
+      alert(`Could not import ROI file: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const stopEditing = () => {
+    setPendingLineStart(null);
+    setEditMode('none');
+  };
+
+  const exportMot = async () => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+    const history = await analysisRef.current?.call('getMotHistory', null);
+    if (!video || !history || history.length === 0) return;
+    const text = formatMot(history, video.videoWidth, video.videoHeight);
+    downloadText(text, `tracks-mot-${fileTimestamp()}.txt`, 'text/plain');
+  };
 
+  const importGroundTruth = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const video = videoRef.current;
+    e.target.value = '';
+    if (!file || !video || !video.videoWidth) return;
+    const records = parseMot(await file.text(), video.videoWidth, video.videoHeight);
+    groundTruthRef.current = groupMotByFrame(records);
+    setGroundTruthName(`${file.name} (${records.length})`);
+  };
+
+  const clearGroundTruth = () => {
+    groundTruthRef.current = null;
+    setGroundTruthName(null);
+  };
+
+  // ROI and tracker config are taken as they are now, not as they were at each frame
+  const exportSession = () => {
+    if (sessionFramesRef.current.length === 0) return;
+    const session: DetectionSession = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      sourceKey,
+      detectorId,
+      analysisMode: isOffline ? 'offline' : 'realtime',
+      roi: { zones, lines },
+      trackerConfig,
+      detectionSettings,
+      frames: sessionFramesRef.current,
+    };
+    downloadJson(session, `session-${fileTimestamp()}.json`);
+  };
+
+  const startReplay = (name: string, session: DetectionSession) => {
+    replayRef.current = { passes: splitReplayPasses(session.frames), cursor: INITIAL_REPLAY_CURSOR };
+    setReplaySession({ name, session });
+    if (session.roi.zones.length > 0 || session.roi.lines.length > 0) {
+      commitRoi(session.roi);
+      setActiveZoneId(session.roi.zones[0]?.id ?? null);
+      setActiveLineId(session.roi.lines[0]?.id ?? null);
+    }
+    onSessionLoaded?.(session);
+    resetAnalytics();
+    if (videoRef.current) videoRef.current.currentTime = 0;
+  };
+
+  const importSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const session = parseDetectionSession(JSON.parse(await file.text()));
+      if (session.sourceKey && session.sourceKey !== sourceKey &&
+          !confirm(`This session was recorded on a different video (${session.sourceKey}). Replay it anyway?`)) {
+        return;
+      }
+      startReplay(`${file.name} (${session.frames.length})`, session);
+    } catch (err) {
+      alert(`Could not load session file: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const stopReplay = () => {
+    setReplaySession(null);
+    resetAnalytics();
+  };
+
+  const getHeatmapImage = (): HTMLCanvasElement => {
+    const heatmap = heatmapRef.current;
+    const cached = heatmapImageRef.current;
+    if (cached?.heatmap !== heatmap || cached.version !== heatmap.version) {
+      heatmapImageRef.current = { heatmap, version: heatmap.version, image: renderHeatmapImage(heatmap) };
+    }
+    return heatmapImageRef.current.image;
+  };
+
+  const resetHeatmap = () => {
+    analysisRef.current?.send({ type: 'resetHeatmap' });
+    heatmapRef.current = createHeatmap();
+  };
+
+  // PNG at the video's resolution, heatmap only
+  const exportHeatmapPng = () => {
+    const video = videoRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = video?.videoWidth || 1000;
+    canvas.height = video?.videoHeight || 1000;
+    const ctx = canvas.getContext('2d');
     if (!ctx) return;
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(getHeatmapImage(), 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => blob && downloadBlob(blob, `heatmap-${fileTimestamp()}.png`), 'image/png');
+  };
+
+  // PNG of the canvas as shown, so redaction and overlays are included
+  const exportSnapshot = () => {
+    canvasRef.current?.toBlob(blob => blob && downloadBlob(blob, `snapshot-${fileTimestamp()}.png`), 'image/png');
+  };
+
+  const exportHeatmapJson = () => {
+    downloadJson(heatmapToJson(heatmapRef.current), `heatmap-${fileTimestamp()}.json`);
+  };
+
+  // Where the video actually sits inside the letterboxed canvas element
+  const getCanvasContentRect = (): ContentRect | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    return getContentRect(canvas.getBoundingClientRect(), canvas.width, canvas.height);
+  };
+
+  // We work in 0-1000 scale for internal logic to match the detectors
+  const getNormalizedPoint = (e: React.MouseEvent<HTMLCanvasElement>, clamp = false): Point | null => {
+    const content = getCanvasContentRect();
+    return content ? clientToNormalized(e.clientX, e.clientY, content, clamp) : null;
+  };
+
+  // Zone editing: grab a vertex to drag it, grab an edge to insert a vertex
+  // there, click anywhere else to append one
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (editMode !== 'zones' || !activeZone || e.button !== 0) return;
+    const content = getCanvasContentRect();
+    if (!content) return;
+
+    const hit = hitTestPolygon(activeZone.points, e.clientX, e.clientY, content);
+    if (hit?.type === 'vertex') {
+      dragRef.current = { index: hit.index, zone: activeZone, changed: false };
+    } else if (hit?.type === 'edge') {
+      const zone = insertVertex(activeZone, hit.index, hit.point);
+      dragRef.current = { index: hit.index, zone, changed: true };
+      setDraggedZone(zone);
+    } else {
+      const point = clientToNormalized(e.clientX, e.clientY, content);
+      if (point) updateActiveZone(zone => ({ ...zone, points: [...zone.points, point] }));
+    }
+  };
+
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = getNormalizedPoint(e, true);
+    if (!point) return;
+    drag.zone = moveVertex(drag.zone, drag.index, point);
+    drag.changed = true;
+    setDraggedZone(drag.zone);
+  };
+
+  // One undo step, save and worker update per drag
+  const endVertexDrag = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDraggedZone(null);
+    if (drag?.changed) commitRoi({ zones: zones.map(z => (z.id === drag.zone.id ? drag.zone : z)), lines });
+  };
+
+  // Right-click a vertex to delete it
+  const handleCanvasContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (editMode !== 'zones' || !activeZone) return;
+    e.preventDefault();
+    const content = getCanvasContentRect();
+    const hit = content && hitTestPolygon(activeZone.points, e.clientX, e.clientY, content);
+    if (hit?.type === 'vertex') updateActiveZone(zone => deleteVertex(zone, hit.index));
+  };
+
+  // Handle Canvas Clicks for tripwires and calibration; zones use mouse down
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (editMode === 'none' || editMode === 'zones') return;
+    const point = getNormalizedPoint(e);
+    if (!point) return;
+
+    if (editMode === 'calibration') {
+      if (calibration.imagePoints.length < 4) {
+        setCalibration(c => ({ ...c, imagePoints: [...c.imagePoints, point] }));
+      }
+    } else if (editMode === 'lines') {
+      // First click sets endpoint A, second click sets B and creates the line
+      if (!pendingLineStart) {
+        setPendingLineStart(point);
+      } else {
+        const line = createTripwire(`Line ${lines.length + 1}`, lines.length, pendingLineStart, point);
+        commitRoi({ zones, lines: [...lines, line] });
+        setActiveLineId(line.id);
+        setPendingLineStart(null);
+      }
+    }
+  };
+
+  // Grab the current video frame and have the worker JPEG-encode it for the
+  // detector. The worker keeps the frame under `frameId` for appearance crops.
+  const encodeFrame = async (video: HTMLVideoElement, frameId: number): Promise<string> => {
+    const analysis = analysisRef.current;
+    if (!analysis) throw new Error('Analysis worker is not running');
+    const bitmap = await captureFrameBitmap(video);
+    return analysis.call('encodeFrame', { frameId, bitmap, quality: JPEG_QUALITY }, [bitmap]);
+  };
+
+  const releaseFrame = (frameId: number) => {
+    analysisRef.current?.send({ type: 'releaseFrame', frameId });
+  };
+
+  // Draw the current video frame plus all overlays onto the visible canvas
+  const renderFrame = (): boolean => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return false;
+    const { tracks, redactions } = renderStateRef.current;
 
     // Match canvas size to video size
     if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
@@ -83,99 +591,336 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
       canvas.height = video.videoHeight;
     }
 
-    // Draw video frame
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    // Draw video frame, redacted before anything can be drawn over it. Live
+    // boxes lag the video, so they are stretched to the track's predicted position.
+    drawSourceFrame(ctx, video, canvas.width, canvas.height, redaction);
+    const predictTo = !isOffline && !replaySession ? performance.now() : undefined;
+    const redactionBoxes = getRedactionBoxes([...tracks, ...redactions], redaction, predictTo);
+    redactRegions(ctx, toPixelRects(redactionBoxes, canvas.width, canvas.height), redaction);
 
-    // --- AI Processing Throttle ---
-    // We only send to Gemini every `processingInterval` ms to simulate "N frames" optimization
-    if (now - lastProcessTimeRef.current > processingInterval) {
-      lastProcessTimeRef.current = now;
-      
-      // Create a temporary canvas to extract base64 frame
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = 640; // Resize for API efficiency
-      tempCanvas.height = 480; 
-      const tempCtx = tempCanvas.getContext('2d');
-      tempCtx?.drawImage(video, 0, 0, tempCanvas.width, tempCanvas.height);
-      const base64 = tempCanvas.toDataURL('image/jpeg', 0.7).split(',')[1];
-
-      // Call API
-      detectObjectsInFrame(base64).then((detections) => {
-        // Run Tracker Update
-        const { updatedTracks } = updateTracks(tracksRef.current, detections, now);
-        
-        // ROI Logic: Check state changes for Enty/Exit
-        let entered = 0;
-        let exited = 0;
-        
-        if (roiPoints.length > 2) {
-          updatedTracks.forEach(track => {
-            const oldTrack = tracksRef.current.find(t => t.id === track.id);
-            const currentPos = getBoxCenter(track.box);
-            const isCurrentlyIn = isPointInPolygon(currentPos, roiPoints);
-            
-            if (oldTrack) {
-              const oldPos = getBoxCenter(oldTrack.box);
-              const wasIn = isPointInPolygon(oldPos, roiPoints);
-              
-              if (!wasIn && isCurrentlyIn) entered++;
-              if (wasIn && !isCurrentlyIn) exited++;
-            }
-          });
-        }
-
-        roiCountsRef.current = {
-            entered: roiCountsRef.current.entered + entered,
-            exited: roiCountsRef.current.exited + exited
-        };
-        
-        setTracks(updatedTracks);
-        setRoiCounts(roiCountsRef.current);
-        onStatsUpdate({
-            totalObjects: updatedTracks.length,
-            roiEntered: roiCountsRef.current.entered,
-            roiExited: roiCountsRef.current.exited
-        });
+    renderOverlays(ctx, canvas.width, canvas.height);
+    if (burnInHud) {
+      drawHud(ctx, canvas.width, {
+        objectCount: tracks.length,
+        zones: renderStateRef.current.zones,
+        lines: renderStateRef.current.lines,
+        videoTime: isVideoFile ? video.currentTime : undefined,
       });
     }
+    return true;
+  };
 
-    // --- Render Overlays (Every Animation Frame) ---
-    renderOverlays(ctx, canvas.width, canvas.height);
+  // Fresh detector output is recorded for replay before it is applied
+  const applyDetectorResult = (detections: DetectionResult[], timestamp: number, videoTime: number, frameId: number) => {
+    appendSessionFrame(sessionFramesRef.current, { timestamp, videoTime, detections });
+    return applyDetections(detections, timestamp, videoTime, { frameId });
+  };
+
+  // Sessions hold no pixels; for re-identification the video at the recorded position stands in
+  const captureReplayFrame = (): AppearanceFrame | undefined => {
+    const video = videoRef.current;
+    if (!video || !trackerConfig.reid.enabled) return undefined;
+    return { bitmap: captureFrameBitmap(video).catch(() => null) };
+  };
+
+  // Feed recorded frames that are due at the video's current position
+  const replayDueFrames = (videoTime: number) => {
+    const replay = replayRef.current;
+    const { cursor, frames, restarted } = advanceReplay(replay.passes, replay.cursor, videoTime);
+    if (restarted) resetAnalytics();
+    replayRef.current = { ...replay, cursor };
+    frames.forEach(frame => applyDetections(frame.detections, frame.timestamp, frame.videoTime, captureReplayFrame()));
+  };
+
+  // Run one detection result through the worker's tracker and analytics, then
+  // take over what it sends back. Results are applied strictly in order, and
+  // dropped if the analytics were reset in the meantime.
+  // `timestamp` is in ms; `videoTime` is the file position the frame came from.
+  const applyDetections = (
+    detections: DetectionResult[],
+    timestamp: number,
+    videoTime: number,
+    frame?: AppearanceFrame
+  ): Promise<void> => {
+    const epoch = analysisEpochRef.current;
+    const run = async () => {
+      const analysis = analysisRef.current;
+      const bitmap = frame && 'bitmap' in frame ? await frame.bitmap : null;
+      if (!analysis || epoch !== analysisEpochRef.current) {
+        bitmap?.close();
+        if (frame && 'frameId' in frame) releaseFrame(frame.frameId);
+        return;
+      }
+      const update = await analysis.call(
+        'apply',
+        { detections, timestamp, videoTime, frameId: frame && 'frameId' in frame ? frame.frameId : undefined, bitmap: bitmap ?? undefined },
+        bitmap ? [bitmap] : []
+      );
+      if (epoch !== analysisEpochRef.current) return;
+
+      renderStateRef.current = update.render;
+      if (update.heatmap) heatmapRef.current = update.heatmap;
+      if (update.events.length > 0) onRoiEvents(update.events);
+      if (update.alerts.length > 0) onAlerts?.(update.alerts);
+      publishStats(update);
+    };
+    applyQueueRef.current = applyQueueRef.current.then(run).catch(e => console.error('Analysis failed', e));
+    return applyQueueRef.current;
+  };
+
+  // Pass worker stats on to the dashboard. Callers drop results from before a
+  // reset first, so the time series patches apply to the mirror they were made for.
+  const publishStats = ({ stats, timeSeries }: StatsUpdate) => {
+    if (!timeSeries) {
+      onStatsUpdate(stats);
+      return;
+    }
+    timeSeriesRef.current = patchBins(timeSeriesRef.current, timeSeries);
+    onStatsUpdate({ ...stats, timeSeries: timeSeriesRef.current });
+  };
+
+  const publishPipelineStats = (now: number) => {
+    if (now - lastMetricsTimeRef.current < metricsInterval) return;
+    lastMetricsTimeRef.current = now;
+    const pipeline = schedulerRef.current.getStats(now);
+    onStatsUpdate({ fps: Math.round(pipeline.renderFps), pipeline });
+  };
+
+  // One live detection: capture and encode, detect, then apply unless a newer result already was
+  const detectLiveFrame = async (scheduler: DetectionScheduler, seq: number, now: number, video: HTMLVideoElement) => {
+    const frameId = nextFrameIdRef.current++;
+    const videoTime = video.currentTime;
+    let base64: string;
+    try {
+      base64 = await encodeFrame(video, frameId);
+    } catch (e) {
+      // Not the detector's fault, so its health is left alone
+      scheduler.fail(seq);
+      console.error('Frame capture failed:', e);
+      return;
+    }
+
+    let detections: DetectionResult[];
+    try {
+      detections = await detectorRef.current.detect(base64, withRedactionClasses(detectionSettings, redaction));
+    } catch (e) {
+      scheduler.fail(seq);
+      releaseFrame(frameId);
+      reportDetectionFailure(e);
+      return;
+    }
+    setHealth(recordDetectorSuccess(healthRef.current));
+    // Ignore results from before the last reset
+    if (scheduler !== schedulerRef.current || !scheduler.complete(seq, performance.now())) {
+      releaseFrame(frameId);
+      return;
+    }
+    applyDetectorResult(detections, now, videoTime, frameId);
+  };
 
-    // Calculate FPS
-    frameCountRef.current++;
-    if (frameCountRef.current % 30 === 0) {
-        // Approximate visual FPS
-        onStatsUpdate({ fps: 30 }); // Hardcoded mostly for demo smoothness, real FPS calc can be noisy
+  // Real-time loop: render every animation frame, detect whenever the scheduler allows
+  const processFrame = () => {
+    if (!videoRef.current || !isProcessing) return;
+
+    const now = performance.now();
+    const video = videoRef.current;
+    const scheduler = schedulerRef.current;
+
+    // --- Detection Scheduling ---
+    // Bounded in-flight requests; results older than the last applied one are dropped.
+    // A replayed session stands in for the detector.
+    if (replaySession) {
+      replayDueFrames(video.currentTime);
+    } else if (scheduler.shouldDispatch(now)) {
+      detectLiveFrame(scheduler, scheduler.begin(now), now, video);
     }
 
+    // --- Render Overlays (Every Animation Frame) ---
+    if (renderFrame()) scheduler.recordRender(now);
+    publishPipelineStats(now);
+
     requestRef.current = requestAnimationFrame(processFrame);
   };
 
+  // The time series is only sent now and then during a run; send the final one at the end
+  const publishFinalStats = async () => {
+    const epoch = analysisEpochRef.current;
+    const update = await analysisRef.current?.call('getStats', null);
+    if (update && epoch === analysisEpochRef.current) publishStats(update);
+  };
+
+  // Pause the file and wait for its metadata; a file that can't be loaded fails the run
+  const prepareOfflineVideo = async (video: HTMLVideoElement): Promise<boolean> => {
+    video.pause();
+    try {
+      await waitForMetadata(video);
+      return true;
+    } catch (e) {
+      console.error('Could not load the video', e);
+      onOfflineFailed?.();
+      return false;
+    }
+  };
+
+  // Offline loop: step through the file at a fixed interval and wait for each
+  // detection, so the result only depends on the file and the detector output.
+  const runOfflineAnalysis = async (isCancelled: () => boolean) => {
+    const video = videoRef.current;
+    if (!video || !(await prepareOfflineVideo(video)) || isCancelled()) return;
+
+    // MediaRecorder WebM files often report an infinite duration; there is no end to step to
+    const duration = video.duration;
+    if (!Number.isFinite(duration)) {
+      console.error('The video reports no finite duration, so it cannot be analysed offline');
+      onOfflineFailed?.();
+      return;
+    }
+    resetAnalytics();
+    const scheduler = schedulerRef.current;
+
+    const steps = Math.floor(duration / offlineStep) + 1;
+    for (let i = 0; i < steps; i++) {
+      const videoTime = Math.min(i * offlineStep, duration);
+      await seekVideo(video, videoTime);
+      if (isCancelled()) return;
+
+      // A failed frame would silently change the result, so stop the run instead
+      const seq = scheduler.begin(performance.now());
+      const frameId = nextFrameIdRef.current++;
+      let detections: DetectionResult[];
+      try {
+        detections = await detectorRef.current.detect(await encodeFrame(video, frameId), withRedactionClasses(detectionSettings, redaction));
+      } catch (e) {
+        scheduler.fail(seq);
+        releaseFrame(frameId);
+        if (isCancelled()) return;
+        reportDetectionFailure(e);
+        onOfflineFailed?.();
+        return;
+      }
+      scheduler.complete(seq, performance.now());
+      setHealth(recordDetectorSuccess(healthRef.current));
+      if (isCancelled()) {
+        releaseFrame(frameId);
+        return;
+      }
+
+      await applyDetectorResult(detections, videoTime * 1000, videoTime, frameId);
+      if (renderFrame()) scheduler.recordRender(performance.now());
+      publishPipelineStats(performance.now());
+      onOfflineProgress?.((i + 1) / steps);
+    }
+    await publishFinalStats();
+    onOfflineComplete?.();
+  };
+
+  // Offline replay: show every recorded frame at its video position, in order
+  const runOfflineReplay = async (session: DetectionSession, isCancelled: () => boolean) => {
+    const video = videoRef.current;
+    if (!video || !(await prepareOfflineVideo(video)) || isCancelled()) return;
+    resetAnalytics();
+    const scheduler = schedulerRef.current;
+
+    const { frames } = session;
+    for (let i = 0; i < frames.length; i++) {
+      await seekVideo(video, Math.min(frames[i].videoTime, video.duration));
+      if (isCancelled()) return;
+      // Looped real-time recordings jump back to the start of the file
+      if (i > 0 && frames[i].videoTime < frames[i - 1].videoTime) resetAnalytics();
+      await applyDetections(frames[i].detections, frames[i].timestamp, frames[i].videoTime, captureReplayFrame());
+      if (renderFrame()) scheduler.recordRender(performance.now());
+      publishPipelineStats(performance.now());
+      onOfflineProgress?.((i + 1) / frames.length);
+    }
+    await publishFinalStats();
+    onOfflineComplete?.();
+  };
+
   const renderOverlays = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    // 1. Draw ROI
-    if (roiPoints.length > 0) {
+    // 0. Density heatmap underneath everything else, smoothed across cells
+    if (showHeatmap && heatmapRef.current.samples > 0) {
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(getHeatmapImage(), 0, 0, width, height);
+    }
+
+    // 1. Draw ROI Zones
+    shownZones.forEach(zone => {
+      if (zone.points.length === 0) return;
+      const isActive = editMode === 'zones' && zone.id === activeZoneId;
+
       ctx.beginPath();
-      ctx.strokeStyle = 'rgba(255, 204, 0, 0.8)';
-      ctx.lineWidth = 3;
-      ctx.fillStyle = 'rgba(255, 204, 0, 0.1)';
+      ctx.strokeStyle = zone.color;
+      ctx.lineWidth = isActive ? 4 : 3;
+      ctx.fillStyle = zone.color;
       
-      const startX = (roiPoints[0].x / 1000) * width;
-      const startY = (roiPoints[0].y / 1000) * height;
+      const startX = (zone.points[0].x / 1000) * width;
+      const startY = (zone.points[0].y / 1000) * height;
       ctx.moveTo(startX, startY);
 
-      for (let i = 1; i < roiPoints.length; i++) {
-        const x = (roiPoints[i].x / 1000) * width;
-        const y = (roiPoints[i].y / 1000) * height;
+      for (let i = 1; i < zone.points.length; i++) {
+        const x = (zone.points[i].x / 1000) * width;
+        const y = (zone.points[i].y / 1000) * height;
         ctx.lineTo(x, y);
       }
       ctx.closePath();
       ctx.stroke();
+      ctx.globalAlpha = 0.1;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+
+      // Zone name at its first vertex
+      ctx.font = 'bold 13px monospace';
+      ctx.fillText(zone.name, startX + 4, startY - 6);
+
+      // Vertex handles for the zone being edited
+      if (isActive) {
+        zone.points.forEach(p => {
+          ctx.beginPath();
+          ctx.arc((p.x / 1000) * width, (p.y / 1000) * height, 4, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+    });
+
+    // 2. Draw Tripwires
+    lines.forEach(line => {
+      drawTripwire(ctx, line, width, height, editMode === 'lines' && line.id === activeLineId);
+    });
+    if (pendingLineStart) {
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.arc((pendingLineStart.x / 1000) * width, (pendingLineStart.y / 1000) * height, 5, 0, Math.PI * 2);
       ctx.fill();
     }
 
-    // 2. Draw Tracks
-    tracksRef.current.forEach(track => {
+    if (editMode === 'calibration') drawCalibration(ctx, width, height);
+
+    // 3. Draw imported ground truth as a dashed layer under our tracks
+    if (groundTruthRef.current && videoRef.current) {
+      // Frame number of the current video position (files) or latest update (streams)
+      const frame = isVideoFile ? videoTimeToMotFrame(videoRef.current.currentTime) : renderStateRef.current.motFrame;
+      // Sparse annotations: fall back to the closest earlier frame within ~0.2s
+      let gtBoxes: MotRecord[] | undefined;
+      for (let f = frame; f >= frame - MOT_FRAME_RATE / 5 && !gtBoxes; f--) {
+        gtBoxes = groundTruthRef.current.get(f);
+      }
+      ctx.save();
+      ctx.setLineDash([6, 4]);
+      ctx.strokeStyle = '#ffffff';
+      ctx.fillStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.font = '12px monospace';
+      gtBoxes?.forEach(gt => {
+        const x = (gt.box.xmin / 1000) * width;
+        const y = (gt.box.ymin / 1000) * height;
+        ctx.strokeRect(x, y, ((gt.box.xmax - gt.box.xmin) / 1000) * width, ((gt.box.ymax - gt.box.ymin) / 1000) * height);
+        ctx.fillText(`GT:${gt.id}`, x + 2, y + 14);
+      });
+      ctx.restore();
+    }
+
+    // 4. Draw Tracks
+    renderStateRef.current.tracks.forEach(track => {
         // Scale 0-1000 box to canvas size
         const xmin = (track.box.xmin / 1000) * width;
         const ymin = (track.box.ymin / 1000) * height;
@@ -183,21 +928,36 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
         const ymax = (track.box.ymax / 1000) * height;
         const boxW = xmax - xmin;
         const boxH = ymax - ymin;
+        const speeding = isSpeeding(track, speedLimits);
+        const color = speeding ? '#ff3333' : getTrackDisplayColor(track, detectionSettings);
 
         // Draw Bounding Box
-        ctx.strokeStyle = track.color;
+        ctx.strokeStyle = color;
         ctx.lineWidth = 2;
         ctx.strokeRect(xmin, ymin, boxW, boxH);
 
         // Draw Label & ID
-        ctx.fillStyle = track.color;
+        ctx.fillStyle = color;
         ctx.font = 'bold 14px monospace';
-        ctx.fillText(`ID:${track.id} ${track.label}`, xmin, ymin - 5);
+        const speed = track.kinematics
+          ? ` ${track.kinematics.speedKmh.toFixed(1)} km/h ${track.kinematics.distanceM.toFixed(0)}m`
+          : '';
+        ctx.fillText(`${speeding ? '⚠ ' : ''}ID:${track.id} ${track.label}${speed}`, xmin, ymin - 5);
+
+        // Draw current dwell for each zone the object is inside
+        track.openVisits.forEach((visit, i) => {
+          const zone = zones.find(z => z.id === visit.zoneId);
+          if (!zone) return;
+          const seconds = Math.max(0, renderStateRef.current.updatedAt - visit.enteredAt) / 1000;
+          ctx.fillStyle = zone.color;
+          ctx.font = 'bold 12px monospace';
+          ctx.fillText(`⏱ ${zone.name} ${seconds.toFixed(1)}s`, xmin, ymax + 14 + i * 14);
+        });
 
         // Draw Trajectory (The "Fade" effect)
         if (track.trajectory.length > 1) {
             ctx.beginPath();
-            ctx.strokeStyle = track.color;
+            ctx.strokeStyle = color;
             ctx.lineWidth = 2;
             
             // Start from oldest point
@@ -215,8 +975,91 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
     });
   };
 
+  // Numbered ground points with their world coordinates, joined once all four are placed
+  const drawCalibration = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const pts = calibration.imagePoints.map(p => ({ x: (p.x / 1000) * width, y: (p.y / 1000) * height }));
+    ctx.strokeStyle = '#ff8800';
+    ctx.fillStyle = '#ff8800';
+    ctx.lineWidth = 2;
+    if (pts.length === 4) {
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      pts.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    ctx.font = 'bold 12px monospace';
+    pts.forEach((p, i) => {
+      const world = calibration.worldPoints[i];
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillText(`P${i + 1} (${world.x}, ${world.y}) m`, p.x + 8, p.y - 8);
+    });
+  };
+
+  // Line with endpoint labels and an arrow per direction showing its count
+  const drawTripwire = (
+    ctx: CanvasRenderingContext2D,
+    line: Tripwire,
+    width: number,
+    height: number,
+    isActive: boolean
+  ) => {
+    const ax = (line.a.x / 1000) * width;
+    const ay = (line.a.y / 1000) * height;
+    const bx = (line.b.x / 1000) * width;
+    const by = (line.b.y / 1000) * height;
+
+    ctx.strokeStyle = line.color;
+    ctx.fillStyle = line.color;
+    ctx.lineWidth = isActive ? 5 : 3;
+    ctx.beginPath();
+    ctx.moveTo(ax, ay);
+    ctx.lineTo(bx, by);
+    ctx.stroke();
+
+    // Unit normal pointing into side A (left of a->b)
+    const len = Math.hypot(bx - ax, by - ay) || 1;
+    const nx = -(by - ay) / len;
+    const ny = (bx - ax) / len;
+    const mx = (ax + bx) / 2;
+    const my = (ay + by) / 2;
+    const arrow = 30;
+    const counts = renderStateRef.current.lines.find(l => l.lineId === line.id) ?? { countAB: 0, countBA: 0 };
+
+    const drawArrow = (fromX: number, fromY: number, toX: number, toY: number, text: string) => {
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(fromX, fromY);
+      ctx.lineTo(toX, toY);
+      const angle = Math.atan2(toY - fromY, toX - fromX);
+      ctx.lineTo(toX - 8 * Math.cos(angle - 0.5), toY - 8 * Math.sin(angle - 0.5));
+      ctx.moveTo(toX, toY);
+      ctx.lineTo(toX - 8 * Math.cos(angle + 0.5), toY - 8 * Math.sin(angle + 0.5));
+      ctx.stroke();
+      ctx.fillText(text, toX + 4, toY + 4);
+    };
+
+    ctx.font = 'bold 12px monospace';
+    // A->B arrow sits along the line's first half, B->A along the second
+    const offset = len / 4;
+    const ux = (bx - ax) / len;
+    const uy = (by - ay) / len;
+    drawArrow(mx - ux * offset + nx * arrow, my - uy * offset + ny * arrow, mx - ux * offset - nx * arrow, my - uy * offset - ny * arrow, `A→B ${counts.countAB}`);
+    drawArrow(mx + ux * offset - nx * arrow, my + uy * offset - ny * arrow, mx + ux * offset + nx * arrow, my + uy * offset + ny * arrow, `B→A ${counts.countBA}`);
+
+    ctx.font = 'bold 13px monospace';
+    ctx.fillText(line.name, ax + 4, ay - 6);
+  };
+
+  const isOffline = analysisMode === 'offline' && isVideoFile;
+
   useEffect(() => {
-    if (isProcessing) {
+    if (isProcessing && !isOffline) {
+      // Offline runs leave the video paused
+      if (videoRef.current?.paused) videoRef.current.play().catch(e => console.error("Autoplay failed", e));
       requestRef.current = requestAnimationFrame(processFrame);
     } else {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
@@ -225,7 +1068,20 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isProcessing, roiPoints]); // Re-bind if processing or ROI changes
+  }, [isProcessing, zones, draggedZone, lines, editMode, activeZoneId, activeLineId, pendingLineStart, calibration, homography, speedLimits, alertRules, detectorId, detectionSettings, redaction, burnInHud, showHeatmap, isOffline, replaySession]); // Re-bind if processing, ROI or detector changes
+
+  useEffect(() => {
+    if (!isProcessing || !isOffline) return;
+    let cancelled = false;
+    const run = replaySession
+      ? runOfflineReplay(replaySession.session, () => cancelled)
+      : runOfflineAnalysis(() => cancelled);
+    run.catch(e => console.error("Offline analysis failed", e));
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isProcessing, isOffline, source, replaySession]);
 
   return (
     <div className="relative w-full h-full flex justify-center items-center bg-black overflow-hidden border border-gray-800 rounded-lg">
@@ -235,7 +1091,7 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
         className="absolute opacity-0 pointer-events-none" 
         muted 
         playsInline 
-        loop
+        loop={!isOffline}
       />
       
       {/* Canvas for rendering everything */}
@@ -243,33 +1099,246 @@ export const VisionCanvas: React.FC<VisionCanvasProps> = ({
         ref={canvasRef}
         className="w-full h-full object-contain cursor-crosshair"
         onClick={handleCanvasClick}
+        onMouseDown={handleCanvasMouseDown}
+        onMouseMove={handleCanvasMouseMove}
+        onMouseUp={endVertexDrag}
+        onMouseLeave={endVertexDrag}
+        onContextMenu={handleCanvasContextMenu}
       />
 
-      {isDrawingRoi && (
-        <div className="absolute top-4 left-4 bg-black/70 text-neon-blue px-3 py-1 rounded border border-neon-blue text-xs font-mono animate-pulse">
-          Click to add ROI Points. 
+      {editMode === 'zones' && (
+        <div className="absolute top-4 left-4 bg-black/70 text-neon-blue px-3 py-2 rounded border border-neon-blue text-xs font-mono flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <span className="animate-pulse">Click to add points to</span>
+            <select
+              value={activeZoneId ?? ''}
+              onChange={(e) => setActiveZoneId(e.target.value)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 text-white"
+            >
+              {zones.map(z => (
+                <option key={z.id} value={z.id}>{z.name}</option>
+              ))}
+            </select>
+            <button 
+              onClick={(e) => { e.stopPropagation(); updateActiveZone(z => ({ ...z, points: [] })); }} 
+              className="text-white hover:text-red-400 underline"
+            >
+              Clear
+            </button>
+            <button 
+              onClick={(e) => { e.stopPropagation(); deleteActiveZone(); }} 
+              className="text-white hover:text-red-400 underline"
+            >
+              Delete
+            </button>
+            <button 
+               onClick={(e) => { e.stopPropagation(); stopEditing(); }}
+               className="text-white hover:text-green-400 underline"
+            >
+              Done
+            </button>
+          </div>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => { e.preventDefault(); addZone(newZoneName); }}
+          >
+            <input
+              value={newZoneName}
+              onChange={(e) => setNewZoneName(e.target.value)}
+              placeholder="New zone name"
+              className="bg-gray-900 border border-gray-700 rounded px-1 text-white placeholder-gray-500"
+            />
+            <button type="submit" className="text-white hover:text-neon-blue underline">+ Add Zone</button>
+          </form>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={(e) => { e.stopPropagation(); undoRoi(); }}
+              disabled={roiHistory.past.length === 0}
+              className="text-white hover:text-neon-blue underline disabled:text-gray-600 disabled:no-underline"
+            >
+              Undo
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); redoRoi(); }}
+              disabled={roiHistory.future.length === 0}
+              className="text-white hover:text-neon-blue underline disabled:text-gray-600 disabled:no-underline"
+            >
+              Redo
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); exportRoi(); }}
+              className="text-white hover:text-neon-blue underline"
+            >
+              Export
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); roiInputRef.current?.click(); }}
+              className="text-white hover:text-neon-blue underline"
+            >
+              Import
+            </button>
+            <input
+              type="file"
+              accept=".json,application/json"
+              ref={roiInputRef}
+              className="hidden"
+              onChange={importRoi}
+            />
+          </div>
+          <span className="text-gray-400">Drag a point to move it, click an edge to insert, right-click to delete.</span>
+        </div>
+      )}
+
+      {editMode === 'calibration' && (
+        <CalibrationPanel
+          calibration={calibration}
+          isCalibrated={homography !== null}
+          speedLimits={speedLimits}
+          onChange={setCalibration}
+          onSpeedLimitsChange={setSpeedLimits}
+          onDone={stopEditing}
+        />
+      )}
+
+      {editMode === 'lines' && (
+        <div className="absolute top-4 left-4 bg-black/70 text-neon-blue px-3 py-2 rounded border border-neon-blue text-xs font-mono flex items-center gap-2">
+          <span className="animate-pulse">
+            {pendingLineStart ? 'Click endpoint B.' : 'Click endpoint A of a new line.'}
+          </span>
+          {lines.length > 0 && (
+            <select
+              value={activeLineId ?? ''}
+              onChange={(e) => setActiveLineId(e.target.value)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 text-white"
+            >
+              {lines.map(l => (
+                <option key={l.id} value={l.id}>{l.name}</option>
+              ))}
+            </select>
+          )}
           <button 
-            onClick={(e) => { e.stopPropagation(); setRoiPoints([]); }} 
-            className="ml-2 text-white hover:text-red-400 underline"
+            onClick={(e) => { e.stopPropagation(); deleteActiveLine(); }} 
+            className="text-white hover:text-red-400 underline"
           >
-            Clear
+            Delete
           </button>
           <button 
-             onClick={(e) => { e.stopPropagation(); setIsDrawingRoi(false); }}
-             className="ml-2 text-white hover:text-green-400 underline"
+             onClick={(e) => { e.stopPropagation(); stopEditing(); }}
+             className="text-white hover:text-green-400 underline"
           >
             Done
           </button>
         </div>
       )}
 
-      {!isDrawingRoi && (
-        <button 
-          onClick={() => setIsDrawingRoi(true)}
-          className="absolute top-4 left-4 bg-gray-800/80 text-white px-2 py-1 rounded text-xs hover:bg-gray-700 transition"
+      <div className="absolute top-4 right-4 flex gap-2 items-center text-xs">
+        {groundTruthName && (
+          <span className="bg-black/70 text-gray-300 px-2 py-1 rounded font-mono">
+            GT: {groundTruthName}
+            <button onClick={clearGroundTruth} className="ml-2 text-white hover:text-red-400">✕</button>
+          </span>
+        )}
+        {replaySession ? (
+          <span className="bg-purple-600/80 text-white px-2 py-1 rounded font-mono">
+            ▶ REPLAY: {replaySession.name}
+            <button onClick={stopReplay} className="ml-2 hover:text-red-300">✕</button>
+          </span>
+        ) : (
+          <button
+            onClick={() => sessionInputRef.current?.click()}
+            disabled={!isVideoFile}
+            title={isVideoFile ? 'Replay a recorded session on this video without calling the detector' : 'Replay needs a video file'}
+            className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition disabled:opacity-50"
+          >
+            ⬆ Replay
+          </button>
+        )}
+        <button
+          onClick={exportSession}
+          title="Save every detection of this run with the ROI and tracker settings"
+          className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition"
+        >
+          ⬇ Session
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          ref={sessionInputRef}
+          className="hidden"
+          onChange={importSession}
+        />
+        <button
+          onClick={() => gtInputRef.current?.click()}
+          className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition"
+        >
+          ⬆ Import MOT
+        </button>
+        <button
+          onClick={exportMot}
+          className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition"
+        >
+          ⬇ Export MOT
+        </button>
+        <input
+          type="file"
+          accept=".txt,.csv"
+          ref={gtInputRef}
+          className="hidden"
+          onChange={importGroundTruth}
+        />
+      </div>
+
+      <div className="absolute bottom-4 right-4 flex gap-2 items-center text-xs">
+        {redaction.enabled && (
+          <span className="bg-black/70 text-neon-green px-2 py-1 rounded font-mono" title="Privacy redaction is applied to the display, recordings and snapshots">
+            🔒 REDACTED
+          </span>
+        )}
+        <button onClick={exportSnapshot} className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition">
+          📷 Snapshot
+        </button>
+        <button
+          onClick={() => setShowHeatmap(v => !v)}
+          className={`px-2 py-1 rounded transition ${showHeatmap ? 'bg-orange-500 text-black' : 'bg-gray-800/80 text-white hover:bg-gray-700'}`}
         >
-          ✏️ Edit ROI
+          Heatmap
         </button>
+        {showHeatmap && (
+          <>
+            <button onClick={resetHeatmap} className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition">
+              Reset
+            </button>
+            <button onClick={exportHeatmapPng} className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition">
+              ⬇ PNG
+            </button>
+            <button onClick={exportHeatmapJson} className="bg-gray-800/80 text-white px-2 py-1 rounded hover:bg-gray-700 transition">
+              ⬇ JSON
+            </button>
+          </>
+        )}
+      </div>
+
+      {editMode === 'none' && (
+        <div className="absolute top-4 left-4 flex gap-2">
+          <button 
+            onClick={startEditingZones}
+            className="bg-gray-800/80 text-white px-2 py-1 rounded text-xs hover:bg-gray-700 transition"
+          >
+            ✏️ Edit ROI
+          </button>
+          <button 
+            onClick={() => setEditMode('lines')}
+            className="bg-gray-800/80 text-white px-2 py-1 rounded text-xs hover:bg-gray-700 transition"
+          >
+            📏 Tripwires
+          </button>
+          <button 
+            onClick={() => setEditMode('calibration')}
+            className={`px-2 py-1 rounded text-xs transition ${homography ? 'bg-orange-500/80 text-black hover:bg-orange-400' : 'bg-gray-800/80 text-white hover:bg-gray-700'}`}
+          >
+            📐 Calibrate
+          </button>
+        </div>
       )}
     </div>
   );
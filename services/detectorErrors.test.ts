@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyDetectorError,
+  DetectorError,
+  INITIAL_DETECTOR_HEALTH,
+  recordDetectorFailure,
+  recordDetectorSuccess,
+  withRetry,
+} from "./detectorErrors";
+
+const fastRetry = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe("classifyDetectorError", () => {
+  it("classifies by status code and message", () => {
+    expect(classifyDetectorError(Object.assign(new Error("denied"), { status: 403 })).kind).toBe("auth");
+    expect(classifyDetectorError(Object.assign(new Error("slow down"), { status: 429 })).kind).toBe("rate-limit");
+    expect(classifyDetectorError(new Error("RESOURCE_EXHAUSTED: quota")).kind).toBe("rate-limit");
+    expect(classifyDetectorError(new TypeError("Failed to fetch")).kind).toBe("network");
+    expect(classifyDetectorError(new SyntaxError("Unexpected token")).kind).toBe("parse");
+  });
+});
+
+describe("withRetry", () => {
+  it("retries transient failures", async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw new DetectorError("network", "offline");
+      return "ok";
+    }, fastRetry);
+
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("does not retry auth or parse errors", async () => {
+    let calls = 0;
+    const attempt = withRetry(async () => {
+      calls++;
+      throw new DetectorError("auth", "bad key");
+    }, fastRetry);
+
+    await expect(attempt).rejects.toMatchObject({ kind: "auth" });
+    expect(calls).toBe(1);
+  });
+});
+
+describe("detector health", () => {
+  it("degrades, goes offline and recovers", () => {
+    const error = new DetectorError("network", "offline");
+    let health = recordDetectorFailure(INITIAL_DETECTOR_HEALTH, error, 1);
+    expect(health.status).toBe("degraded");
+
+    health = recordDetectorFailure(recordDetectorFailure(health, error, 2), error, 3);
+    expect(health.status).toBe("offline");
+    expect(health.consecutiveFailures).toBe(3);
+
+    health = recordDetectorSuccess(health);
+    expect(health.status).toBe("online");
+    expect(health.consecutiveFailures).toBe(0);
+  });
+
+  it("treats auth errors as offline right away", () => {
+    const health = recordDetectorFailure(INITIAL_DETECTOR_HEALTH, new DetectorError("auth", "bad key"), 1);
+    expect(health.status).toBe("offline");
+  });
+});
@@ -0,0 +1,110 @@
+import { DetectorErrorKind, DetectorHealth } from "../types";
+
+// --- Detector Errors ---
+// Providers throw a `DetectorError` so callers can tell "no objects" apart from
+// a failed call, and so only transient failures are retried.
+
+export class DetectorError extends Error {
+  kind: DetectorErrorKind;
+  status?: number;
+
+  constructor(kind: DetectorErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "DetectorError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return this.kind === "rate-limit" || this.kind === "network";
+  }
+}
+
+export const errorFromStatus = (status: number, message: string): DetectorError => {
+  if (status === 401 || status === 403) return new DetectorError("auth", message, status);
+  if (status === 429) return new DetectorError("rate-limit", message, status);
+  if (status >= 500 || status === 408) return new DetectorError("network", message, status);
+  return new DetectorError("unknown", message, status);
+};
+
+// Map anything a provider might throw (SDK errors, fetch failures, JSON errors)
+// onto a classified DetectorError
+export const classifyDetectorError = (error: unknown): DetectorError => {
+  if (error instanceof DetectorError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number") return errorFromStatus(status, message);
+
+  if (error instanceof SyntaxError) return new DetectorError("parse", message);
+  if (/api key|permission|unauthori[sz]ed|forbidden/i.test(message)) return new DetectorError("auth", message);
+  if (/quota|rate limit|resource_exhausted|too many requests/i.test(message)) return new DetectorError("rate-limit", message);
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError || /network|fetch|timed? ?out|econn/i.test(message)) {
+    return new DetectorError("network", message);
+  }
+  return new DetectorError("unknown", message);
+};
+
+// --- Retry ---
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number; // Doubled on every attempt, plus up to 50% jitter
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 4000,
+};
+
+export const getRetryDelay = (attempt: number, options: RetryOptions, random = Math.random): number => {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return delay + delay * 0.5 * random();
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const error = classifyDetectorError(e);
+      if (!error.retryable || attempt >= options.retries) throw error;
+      await sleep(getRetryDelay(attempt, options));
+    }
+  }
+};
+
+// --- Health ---
+// Successive failures move the detector from degraded to offline; auth errors
+// go straight to offline since retrying won't fix them.
+
+export const OFFLINE_AFTER_FAILURES = 3;
+
+export const INITIAL_DETECTOR_HEALTH: DetectorHealth = {
+  status: "idle",
+  consecutiveFailures: 0,
+  lastError: null,
+};
+
+export const recordDetectorSuccess = (health: DetectorHealth): DetectorHealth => {
+  if (health.status === "online") return health;
+  return { ...health, status: "online", consecutiveFailures: 0 };
+};
+
+export const recordDetectorFailure = (health: DetectorHealth, error: DetectorError, timestamp: number): DetectorHealth => {
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  const offline = error.kind === "auth" || consecutiveFailures >= OFFLINE_AFTER_FAILURES;
+  return {
+    status: offline ? "offline" : "degraded",
+    consecutiveFailures,
+    lastError: { kind: error.kind, message: error.message, timestamp },
+  };
+};
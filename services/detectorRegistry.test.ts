@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createDetectorProvider } from "./detectorRegistry";
+import { buildDemoScript } from "./mockDetectorService";
+
+describe("detector registry", () => {
+  const script = buildDemoScript();
+  const firstLeftEdge = (frame: number) => script[frame][0].box_2d[1];
+
+  it("gives every tile its own mock script position", async () => {
+    const tileA = createDetectorProvider("mock");
+    const tileB = createDetectorProvider("mock");
+
+    const a0 = await tileA.detect("");
+    const b0 = await tileB.detect("");
+    const a1 = await tileA.detect("");
+    expect(a0[0].box_2d[1]).toBe(firstLeftEdge(0));
+    expect(b0[0].box_2d[1]).toBe(firstLeftEdge(0));
+    expect(a1[0].box_2d[1]).toBe(firstLeftEdge(1));
+  });
+
+  it("starts each run from the top of the script", async () => {
+    const firstRun = createDetectorProvider("mock");
+    await firstRun.detect("");
+    await firstRun.detect("");
+
+    const secondRun = createDetectorProvider("mock");
+    expect((await secondRun.detect(""))[0].box_2d[1]).toBe(firstLeftEdge(0));
+  });
+
+  it("falls back to the first backend for unknown ids", () => {
+    expect(createDetectorProvider("nope").id).toBe("gemini");
+  });
+});
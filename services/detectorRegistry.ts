@@ -0,0 +1,37 @@
+import { DetectorProvider } from "../types";
+import { withRetry } from "./detectorErrors";
+import { geminiDetector } from "./geminiService";
+import { createLocalDetector, DEFAULT_LOCAL_DETECTOR_URL } from "./localDetectorService";
+import { createMockDetector } from "./mockDetectorService";
+
+// Transient failures (network, rate limit) are retried with backoff before they surface
+const withRetries = (provider: DetectorProvider): DetectorProvider => ({
+  ...provider,
+  detect: (base64Image, settings) => withRetry(() => provider.detect(base64Image, settings)),
+});
+
+// Backends selectable from the UI, in display order
+const DETECTOR_FACTORIES: Record<string, () => DetectorProvider> = {
+  gemini: () => geminiDetector,
+  "local-http": () => createLocalDetector({ endpoint: process.env.LOCAL_DETECTOR_URL || DEFAULT_LOCAL_DETECTOR_URL }),
+  mock: () => createMockDetector(),
+};
+
+// A new instance of a backend. Each tile makes its own for every run, so state
+// such as the mock's position in its script is never shared or carried over.
+export const createDetectorProvider = (id: string): DetectorProvider => {
+  const create = DETECTOR_FACTORIES[id] ?? DETECTOR_FACTORIES.gemini;
+  return withRetries(create());
+};
+
+// For listing the backends; detection goes through `createDetectorProvider`
+export const DETECTOR_PROVIDERS: DetectorProvider[] = Object.keys(DETECTOR_FACTORIES).map(createDetectorProvider);
+
+export const getDetectorProvider = (id: string): DetectorProvider => {
+  return DETECTOR_PROVIDERS.find(p => p.id === id) ?? DETECTOR_PROVIDERS[0];
+};
+
+// Gemini needs an API key; fall back to the mock so the app stays usable without one
+export const getDefaultDetectorId = (): string => {
+  return process.env.API_KEY ? geminiDetector.id : "mock";
+};
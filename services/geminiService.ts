@@ -1,5 +1,8 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { DetectionResult } from "../types";
+import { DetectionResult, DetectionSettings, DetectorProvider } from "../types";
+import { normalizeDetections } from "../utils/detectionValidation";
+import { buildDetectionPrompt, DEFAULT_DETECTION_SETTINGS } from "../utils/detectionSettings";
+import { classifyDetectorError, DetectorError } from "./detectorErrors";
 
 // Schema for the object detection response
 const detectionSchema: Schema = {
@@ -19,20 +22,28 @@ const detectionSchema: Schema = {
             items: { type: Type.NUMBER },
             description: "Bounding box coordinates [ymin, xmin, ymax, xmax] normalized to 1000x1000.",
           },
+          confidence: {
+            type: Type.NUMBER,
+            description: "How certain the detection is, from 0 to 1.",
+          },
         },
-        required: ["label", "box_2d"],
+        required: ["label", "box_2d", "confidence"],
       },
     },
   },
   required: ["detections"],
 };
 
-export const detectObjectsInFrame = async (base64Image: string): Promise<DetectionResult[]> => {
+// Throws a DetectorError on failure; callers decide whether to retry
+export const detectObjectsInFrame = async (
+  base64Image: string,
+  settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS
+): Promise<DetectionResult[]> => {
   if (!process.env.API_KEY) {
-    console.warn("API Key is missing!");
-    return [];
+    throw new DetectorError("auth", "Gemini API key is missing");
   }
 
+  let jsonText: string | undefined;
   try {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     
@@ -48,7 +59,7 @@ export const detectObjectsInFrame = async (base64Image: string): Promise<Detecti
             },
           },
           {
-            text: "Detect all main objects in this image. For each object, provide the label and the bounding box [ymin, xmin, ymax, xmax] on a 1000x1000 scale.",
+            text: buildDetectionPrompt(settings),
           },
         ],
       },
@@ -59,14 +70,27 @@ export const detectObjectsInFrame = async (base64Image: string): Promise<Detecti
         temperature: 0.3, // Low temperature for consistency
       },
     });
+    jsonText = response.text;
+  } catch (error) {
+    throw classifyDetectorError(error);
+  }
 
-    const jsonText = response.text;
-    if (!jsonText) return [];
+  if (!jsonText) return [];
 
-    const result = JSON.parse(jsonText);
-    return result.detections || [];
-  } catch (error) {
-    console.error("Gemini Detection Error:", error);
-    return [];
+  let result: { detections?: unknown };
+  try {
+    result = JSON.parse(jsonText);
+  } catch {
+    throw new DetectorError("parse", "Gemini returned invalid JSON");
   }
-};
\ No newline at end of file
+  if (!result || (result.detections !== undefined && !Array.isArray(result.detections))) {
+    throw new DetectorError("parse", "Gemini response has no detections array");
+  }
+  return normalizeDetections(result.detections);
+};
+
+export const geminiDetector: DetectorProvider = {
+  id: "gemini",
+  name: "Gemini 2.5 Flash",
+  detect: detectObjectsInFrame,
+};
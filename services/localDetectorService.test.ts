@@ -0,0 +1,80 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { DetectionResult } from "../types";
+import { FRAME_HEIGHT, FRAME_WIDTH } from "../utils/frameEncoding";
+import { createLocalDetector, mapLocalPrediction } from "./localDetectorService";
+
+// Pixel scaling leaves float noise; compare whole 0-1000 units
+const roundBox = (d: DetectionResult | null | undefined) => d?.box_2d.map(v => Math.round(v));
+
+let server: Server | null = null;
+
+// Starts a stub detector that answers every request with `response` and returns its URL
+const startStub = (response: unknown) =>
+  new Promise<string>(resolve => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(response)));
+    });
+    server.listen(0, "127.0.0.1", () => {
+      resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/detect`);
+    });
+  });
+
+afterEach(async () => {
+  await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+describe("local detector response mapping", () => {
+  it("scales pixel corners by the frame size", () => {
+    const result = mapLocalPrediction({ name: "person", xyxy: [64, 48, 320, 240], confidence: 0.9 }, 640, 480);
+    expect(result).toMatchObject({ label: "person", confidence: 0.9 });
+    expect(roundBox(result)).toEqual([100, 100, 500, 500]);
+  });
+
+  it("converts pixel center and size boxes to corners", () => {
+    const result = mapLocalPrediction({ class_name: "car", xywh: [320, 240, 128, 96], score: 0.5 }, 640, 480);
+    expect(result).toMatchObject({ label: "car", confidence: 0.5 });
+    expect(roundBox(result)).toEqual([400, 400, 600, 600]);
+
+    // Roboflow-style fields
+    const roboflow = mapLocalPrediction({ class: "car", x: 320, y: 240, width: 128, height: 96 }, 640, 480);
+    expect(roundBox(roboflow)).toEqual([400, 400, 600, 600]);
+  });
+
+  it("treats boxes with every value <= 1 as fractions of the frame", () => {
+    const result = mapLocalPrediction({ label: "dog", bbox: [0.1, 0.2, 0.5, 0.6] }, 640, 480);
+    expect(roundBox(result)).toEqual([200, 100, 600, 500]);
+  });
+
+  it("reads box objects and YOLOv5 pandas columns", () => {
+    const box = mapLocalPrediction({ name: "person", box: { x1: 64, y1: 48, x2: 320, y2: 240 } }, 640, 480);
+    expect(roundBox(box)).toEqual([100, 100, 500, 500]);
+
+    const pandas = mapLocalPrediction({ name: "person", xmin: 64, ymin: 48, xmax: 320, ymax: 240, class: 0 }, 640, 480);
+    expect(roundBox(pandas)).toEqual([100, 100, 500, 500]);
+  });
+
+  it("passes boxes already in the 0-1000 format through and drops unusable ones", () => {
+    expect(mapLocalPrediction({ label: "cat", box_2d: [1, 2, 3, 4] }, 640, 480)?.box_2d).toEqual([1, 2, 3, 4]);
+    expect(mapLocalPrediction({ xyxy: [0, 0, 10, 10] }, 640, 480)).toBeNull();
+    expect(mapLocalPrediction({ label: "cat", xyxy: [0, 0, 10] }, 640, 480)).toBeNull();
+    expect(mapLocalPrediction({ label: "cat" }, 640, 480)).toBeNull();
+  });
+
+  it("falls back to the configured frame size when the response has none", async () => {
+    const endpoint = await startStub({ predictions: [{ name: "person", xyxy: [FRAME_WIDTH / 10, FRAME_HEIGHT / 10, FRAME_WIDTH / 2, FRAME_HEIGHT / 2] }] });
+    const [atDefault] = await createLocalDetector({ endpoint }).detect("");
+    expect(roundBox(atDefault)).toEqual([100, 100, 500, 500]); // The capture size
+    const [atConfigured] = await createLocalDetector({ endpoint, frameWidth: FRAME_WIDTH / 2, frameHeight: FRAME_HEIGHT / 2 }).detect("");
+    expect(roundBox(atConfigured)).toEqual([200, 200, 1000, 1000]);
+  });
+
+  it("uses the image size the server reports", async () => {
+    const endpoint = await startStub({ image_width: 1280, image_height: 960, detections: [{ name: "person", xyxy: [128, 96, 640, 480] }] });
+    const [detection] = await createLocalDetector({ endpoint }).detect("");
+    expect(roundBox(detection)).toEqual([100, 100, 500, 500]);
+  });
+});
@@ -0,0 +1,142 @@
+import { DetectionResult, DetectionSettings, DetectorProvider } from "../types";
+import { getRequestedClasses } from "../utils/detectionSettings";
+import { normalizeDetections } from "../utils/detectionValidation";
+import { FRAME_HEIGHT, FRAME_WIDTH } from "../utils/frameEncoding";
+import { classifyDetectorError, DetectorError, errorFromStatus } from "./detectorErrors";
+
+// Generic client for a self-hosted YOLO-style HTTP endpoint.
+// The frame is posted as a multipart JPEG upload (field "file") and the response
+// is mapped onto the same 0-1000 `box_2d` format the Gemini provider returns.
+
+export interface LocalDetectorOptions {
+  endpoint: string;
+  // Size of the frame sent by VisionCanvas, used to normalize pixel boxes; defaults to the capture size
+  frameWidth?: number;
+  frameHeight?: number;
+}
+
+export const DEFAULT_LOCAL_DETECTOR_URL = "http://localhost:8000/detect";
+
+// Shape of a single prediction. Covers the common server flavours:
+// ultralytics `results.tojson()`, YOLOv5 pandas json, plain `bbox` arrays and
+// center-based boxes (ultralytics `xywh`, Roboflow `x`/`y`/`width`/`height`).
+interface RawPrediction {
+  label?: string;
+  name?: string;
+  class_name?: string;
+  class?: number | string;
+  confidence?: number;
+  score?: number;
+  box_2d?: number[];
+  bbox?: number[];
+  xyxy?: number[];
+  box?: number[] | { x1: number; y1: number; x2: number; y2: number };
+  xywh?: number[];
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  xmin?: number;
+  ymin?: number;
+  xmax?: number;
+  ymax?: number;
+}
+
+interface RawResponse {
+  detections?: RawPrediction[];
+  predictions?: RawPrediction[];
+  image_width?: number;
+  image_height?: number;
+}
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Extract [x1, y1, x2, y2] or [cx, cy, w, h] in whatever unit the server used
+const getRawBox = (p: RawPrediction): { values: number[]; center: boolean } | null => {
+  const box = p.xyxy ?? p.bbox ?? p.box;
+  if (Array.isArray(box)) return { values: box, center: false };
+  if (box && typeof box === "object") return { values: [box.x1, box.y1, box.x2, box.y2], center: false };
+  if (p.xmin !== undefined && p.ymin !== undefined && p.xmax !== undefined && p.ymax !== undefined) {
+    return { values: [p.xmin, p.ymin, p.xmax, p.ymax], center: false };
+  }
+  if (p.xywh) return { values: p.xywh, center: true };
+  if (p.x !== undefined && p.y !== undefined && p.width !== undefined && p.height !== undefined) {
+    return { values: [p.x, p.y, p.width, p.height], center: true };
+  }
+  return null;
+};
+
+export const mapLocalPrediction = (
+  p: RawPrediction,
+  width: number,
+  height: number
+): DetectionResult | null => {
+  const label = p.label ?? p.name ?? p.class_name ?? (p.class !== undefined ? String(p.class) : undefined);
+  if (!label) return null;
+  const confidence = p.confidence ?? p.score;
+
+  // Already in the Gemini format
+  if (p.box_2d && p.box_2d.length === 4) {
+    return { label, box_2d: p.box_2d as DetectionResult["box_2d"], confidence };
+  }
+
+  const raw = getRawBox(p);
+  if (!raw || raw.values.length !== 4) return null;
+  const [a, b, c, d] = raw.values;
+  const [x1, y1, x2, y2] = raw.center ? [a - c / 2, b - d / 2, a + c / 2, b + d / 2] : raw.values;
+
+  // Boxes with every value <= 1 are treated as fractions of the frame
+  const isFraction = raw.values.every(v => v <= 1);
+  const sx = isFraction ? 1000 : 1000 / width;
+  const sy = isFraction ? 1000 : 1000 / height;
+
+  return {
+    label,
+    box_2d: [y1 * sy, x1 * sx, y2 * sy, x2 * sx],
+    confidence,
+  };
+};
+
+export const createLocalDetector = ({
+  endpoint,
+  frameWidth = FRAME_WIDTH,
+  frameHeight = FRAME_HEIGHT,
+}: LocalDetectorOptions): DetectorProvider => ({
+  id: "local-http",
+  name: "Local YOLO (HTTP)",
+  detect: async (base64Image: string, settings?: DetectionSettings): Promise<DetectionResult[]> => {
+    let json: RawResponse | RawPrediction[];
+    try {
+      const body = new FormData();
+      body.append("file", base64ToBlob(base64Image, "image/jpeg"), "frame.jpg");
+      // Hints for servers that filter on their side; ignored by the rest
+      const classes = settings ? getRequestedClasses(settings) : [];
+      if (classes.length > 0) body.append("classes", classes.join(","));
+      if (settings?.minConfidence) body.append("conf", String(settings.minConfidence));
+
+      const response = await fetch(endpoint, { method: "POST", body });
+      if (!response.ok) {
+        throw errorFromStatus(response.status, `Local detector returned ${response.status}`);
+      }
+      json = await response.json();
+    } catch (error) {
+      throw classifyDetectorError(error);
+    }
+
+    const predictions = Array.isArray(json) ? json : json?.detections ?? json?.predictions;
+    if (!Array.isArray(predictions)) {
+      throw new DetectorError("parse", "Local detector response has no predictions array");
+    }
+    const width = (!Array.isArray(json) && json.image_width) || frameWidth;
+    const height = (!Array.isArray(json) && json.image_height) || frameHeight;
+
+    return normalizeDetections(predictions.map(p => mapLocalPrediction(p, width, height)));
+  },
+});
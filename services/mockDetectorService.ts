@@ -0,0 +1,54 @@
+import { DetectionResult, DetectorProvider } from "../types";
+import { normalizeDetections } from "../utils/detectionValidation";
+
+// Scripted detector for tests and demos. Each call returns the next frame of
+// the script (looping at the end), so runs are reproducible without an API key.
+
+export interface MockDetectorOptions {
+  // One entry per detection call
+  script?: DetectionResult[][];
+  // Simulated round-trip time
+  latencyMs?: number;
+}
+
+const makeBox = (cx: number, cy: number, w: number, h: number): DetectionResult["box_2d"] => [
+  cy - h / 2,
+  cx - w / 2,
+  cy + h / 2,
+  cx + w / 2,
+];
+
+// Two people crossing paths while a car drives along the bottom of the frame
+export const buildDemoScript = (frames = 60): DetectionResult[][] => {
+  const script: DetectionResult[][] = [];
+  for (let i = 0; i < frames; i++) {
+    const t = i / (frames - 1);
+    script.push([
+      { label: "person", box_2d: makeBox(150 + 700 * t, 450, 80, 220), confidence: 0.9 },
+      { label: "person", box_2d: makeBox(850 - 700 * t, 500, 80, 220), confidence: 0.85 },
+      { label: "car", box_2d: makeBox(100 + 800 * t, 820, 220, 140), confidence: 0.8 },
+    ]);
+  }
+  return script;
+};
+
+export const createMockDetector = ({
+  script = buildDemoScript(),
+  latencyMs = 50,
+}: MockDetectorOptions = {}): DetectorProvider => {
+  let frameIndex = 0;
+
+  return {
+    id: "mock",
+    name: "Mock (scripted)",
+    detect: async (): Promise<DetectionResult[]> => {
+      if (latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+      }
+      if (script.length === 0) return [];
+      const frame = script[frameIndex % script.length];
+      frameIndex++;
+      return normalizeDetections(frame);
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { AlertEvent } from "../types";
+import { postWebhook } from "./webhookService";
+
+const alert: AlertEvent = {
+  id: "alert-1",
+  ruleId: "rule-1",
+  ruleName: "Crowded door",
+  timestamp: Date.UTC(2024, 0, 1),
+  message: "Occupancy of Door is 4 (> 3) for 10s",
+  details: { zoneId: "z1", occupancy: 4 },
+};
+
+let server: Server | null = null;
+
+// Starts a stub endpoint on a free port and returns its URL
+const startStub = (handler: (req: IncomingMessage, body: string, res: ServerResponse) => void) =>
+  new Promise<string>(resolve => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => handler(req, body, res));
+    });
+    server.listen(0, "127.0.0.1", () => {
+      resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/hook`);
+    });
+  });
+
+afterEach(async () => {
+  await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+describe("webhook delivery", () => {
+  it("posts the alert as JSON", async () => {
+    const received: { method?: string; contentType?: string; body?: unknown } = {};
+    const url = await startStub((req, body, res) => {
+      received.method = req.method;
+      received.contentType = req.headers["content-type"];
+      received.body = JSON.parse(body);
+      res.writeHead(204).end();
+    });
+
+    await postWebhook(url, alert);
+
+    expect(received.method).toBe("POST");
+    expect(received.contentType).toBe("application/json");
+    expect(received.body).toEqual({
+      source: "vision-tracker",
+      rule: { id: "rule-1", name: "Crowded door" },
+      message: alert.message,
+      timestamp: "2024-01-01T00:00:00.000Z",
+      details: { zoneId: "z1", occupancy: 4 },
+    });
+  });
+
+  it("rejects on a non-2xx response", async () => {
+    const url = await startStub((_req, _body, res) => res.writeHead(500).end());
+    await expect(postWebhook(url, alert)).rejects.toThrow("Webhook returned 500");
+  });
+});
@@ -0,0 +1,35 @@
+import { AlertEvent } from "../types";
+
+// Delivers fired alerts as a JSON POST. The receiving endpoint must allow
+// cross-origin requests from the app's origin.
+
+export interface WebhookPayload {
+  source: "vision-tracker";
+  rule: { id: string; name: string };
+  camera?: string;
+  message: string;
+  timestamp: string; // ISO 8601
+  details: Record<string, unknown>;
+}
+
+export const toWebhookPayload = (alert: AlertEvent): WebhookPayload => ({
+  source: "vision-tracker",
+  rule: { id: alert.ruleId, name: alert.ruleName },
+  camera: alert.cameraName,
+  message: alert.message,
+  timestamp: new Date(alert.timestamp).toISOString(),
+  details: alert.details,
+});
+
+// Rejects on network errors and non-2xx responses
+export const postWebhook = async (url: string, alert: AlertEvent, timeoutMs = 5000): Promise<void> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(toWebhookPayload(alert)),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status}`);
+  }
+};
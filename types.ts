@@ -11,6 +11,58 @@ export interface DetectionResult {
   confidence?: number;
 }
 
+// A pluggable object detector. Every backend returns detections in the
+// same 0-1000 `box_2d` format so the tracker never needs to know which one ran.
+// Failed calls reject with a `DetectorError` rather than returning no detections.
+export interface DetectorProvider {
+  id: string;
+  name: string;
+  // Providers apply whatever settings their backend supports; the rest is
+  // enforced by `filterDetections` before the tracker sees the results.
+  detect: (base64Image: string, settings?: DetectionSettings) => Promise<DetectionResult[]>;
+}
+
+// What to detect and how to show it. Class names are compared case-insensitively.
+export interface DetectionSettings {
+  targetClasses: string[]; // Empty means every class
+  promptOverride: string; // Free-text request sent instead of the default prompt
+  minConfidence: number; // 0-1; detections without a confidence always pass
+  classColors: Record<string, string>; // Lower-cased class -> CSS color
+  extraClasses?: string[]; // Also requested from the detector but never tracked, e.g. classes to redact
+}
+
+export type DetectorErrorKind = 'auth' | 'rate-limit' | 'network' | 'parse' | 'unknown';
+
+export interface DetectorHealth {
+  status: 'idle' | 'online' | 'degraded' | 'offline';
+  consecutiveFailures: number;
+  lastError: { kind: DetectorErrorKind; message: string; timestamp: number } | null;
+}
+
+// Constant-velocity Kalman state for a track, in 0-1000 units.
+// Each axis keeps its own 2x2 covariance stored as [pPos, pPosVel, pVel].
+export interface MotionState {
+  x: number;
+  y: number;
+  vx: number; // units per second
+  vy: number;
+  w: number;
+  h: number;
+  covX: [number, number, number];
+  covY: [number, number, number];
+  timestamp: number; // time the state refers to
+}
+
+// A motion state without its uncertainty; enough to extrapolate where a box is heading
+export type MotionEstimate = Omit<MotionState, 'covX' | 'covY'>;
+
+// One stay of a track inside a zone; `exitedAt` is unset while it is still inside
+export interface ZoneVisit {
+  zoneId: string;
+  enteredAt: number;
+  exitedAt?: number;
+}
+
 export interface TrackedObject {
   id: number;
   label: string;
@@ -18,6 +70,69 @@ export interface TrackedObject {
   trajectory: { x: number; y: number }[];
   color: string;
   lastSeen: number; // timestamp
+  misses: number; // Consecutive updates without a matching detection
+  motion: MotionState;
+  zoneVisits?: ZoneVisit[]; // Filled in by the ROI analytics, not the tracker
+  kinematics?: TrackKinematics; // Filled in when a ground-plane calibration is set
+  appearance?: AppearanceDescriptor; // Smoothed over the track's detections, when frames were available
+}
+
+// Normalized color/gradient histograms of a detection's image crop, used to
+// recognize an object that comes back after its track was dropped
+export type AppearanceDescriptor = number[];
+
+// Real-world motion of a track, measured at its ground contact point (box bottom center)
+export interface TrackKinematics {
+  speedKmh: number;
+  distanceM: number; // Travelled since the track was first seen with a calibration
+  groundPoint: Point; // Latest observed position, meters
+}
+
+// Four image points (0-1000) on the ground plane and their world positions in meters
+export interface GroundCalibration {
+  imagePoints: Point[];
+  worldPoints: Point[];
+}
+
+// Lower-cased label -> speed limit in km/h
+export type SpeedLimits = Record<string, number>;
+
+export type AssociationMethod = 'greedy' | 'hungarian';
+
+// How long a track may go unmatched before its ID is dropped: either a true
+// count of missed detection frames, or wall/video time in seconds.
+export type DropoutPolicy =
+  | { mode: 'frames'; frames: number }
+  | { mode: 'seconds'; seconds: number };
+
+// Tuning for track/detection association. Cost of a pair is
+// iouWeight * (1 - IoU) + distanceWeight * (centerDistance / maxDistance).
+export interface TrackerConfig {
+  association: AssociationMethod;
+  iouWeight: number;
+  distanceWeight: number;
+  maxDistance: number; // Center-distance gate (0-1000 scale)
+  minIou: number; // IoU gate, 0 disables it
+  maxTrajectoryLength: number; // Points kept per track for drawing
+  dropout: DropoutPolicy;
+  reid: ReidConfig;
+}
+
+// Re-identification: dropped tracks with an appearance stay in a gallery, and
+// new detections that look like one of them get its ID back
+export interface ReidConfig {
+  enabled: boolean;
+  gallerySeconds: number; // How long after its last sighting a track can be recovered
+  minSimilarity: number; // 0-1 appearance similarity needed for a match
+}
+
+// Plain-JSON copy of a Tracker's full state, for save/restore
+export interface TrackerSnapshot {
+  config: TrackerConfig;
+  nextId: number;
+  tracks: TrackedObject[];
+  gallery: TrackedObject[]; // Dropped tracks that can still be re-identified
+  reidentifications: number;
 }
 
 export interface Point {
@@ -25,15 +140,184 @@ export interface Point {
   y: number;
 }
 
+// A named counting polygon, in 0-1000 coordinates
+export interface RoiZone {
+  id: string;
+  name: string;
+  color: string;
+  points: Point[];
+}
+
+export interface ZoneStats {
+  zoneId: string;
+  name: string;
+  color: string;
+  entered: number;
+  exited: number;
+  occupancy: number; // Tracks currently inside
+  // Dwell of completed visits, in seconds; null until someone has left
+  avgDwell: number | null;
+  medianDwell: number | null;
+  maxDwell: number | null;
+}
+
+export type RoiEventType = 'enter' | 'exit';
+
+// A single zone transition, kept for the event log and exports
+export interface RoiEvent {
+  id: string;
+  type: RoiEventType;
+  timestamp: number; // Wall clock, ms since epoch
+  videoTime?: number; // Seconds into the file, for uploaded videos
+  trackId: number;
+  label: string;
+  zoneId: string;
+  zoneName: string;
+  position: Point; // Box center, 0-1000 scale
+  cameraName?: string; // Grid tile the event came from
+}
+
+// A counting line from `a` to `b`. Side A is to the left of a->b
+// (positive cross product), side B to the right.
+export interface Tripwire {
+  id: string;
+  name: string;
+  color: string;
+  a: Point;
+  b: Point;
+}
+
+// Everything drawn in the ROI editor, as saved per source and in JSON exports
+export interface RoiDefinition {
+  zones: RoiZone[];
+  lines: Tripwire[];
+}
+
+export type CrossingDirection = 'AB' | 'BA';
+
+export interface TripwireStats {
+  lineId: string;
+  name: string;
+  color: string;
+  countAB: number;
+  countBA: number;
+}
+
+// --- Alert Rules ---
+// Zone and label fields use '' for "any".
+export type AlertCondition =
+  | { type: 'occupancy'; zoneId: string; threshold: number; durationSeconds: number } // Occupancy > N for T seconds
+  | { type: 'zone-entry'; zoneId: string; label: string } // A track with the label enters the zone
+  | { type: 'count-rate'; zoneId: string; threshold: number }; // Entries in the last minute > N
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  cooldownSeconds: number; // Minimum time between two firings of the rule
+  webhook: boolean; // Also POST to the configured webhook URL
+}
+
+export interface AlertConfig {
+  webhookUrl: string;
+  rules: AlertRule[];
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  timestamp: number; // Wall clock, ms since epoch
+  message: string;
+  details: Record<string, unknown>;
+  cameraName?: string;
+}
+
+// 'realtime' follows playback; 'offline' steps through a file frame by frame
+export type AnalysisMode = 'realtime' | 'offline';
+
 export enum DetectionStatus {
   IDLE = 'IDLE',
   RUNNING = 'RUNNING',
   PAUSED = 'PAUSED',
 }
 
+// Measured performance of the render/detection pipeline
+export interface PipelineStats {
+  renderFps: number;
+  detectionFps: number; // Results applied per second
+  latencyP50: number; // ms
+  latencyP95: number; // ms
+  droppedStale: number; // Results discarded because a newer one was already applied
+  droppedBusy: number; // Due frames skipped because too many requests were in flight
+  inFlight: number;
+  intervalMs: number; // Current adaptive detection interval
+}
+
+// Totals of all tracker updates in one fixed time bucket
+export interface TimeBin {
+  start: number; // ms on the tracker clock
+  entries: number; // Zone entries, all zones
+  exits: number;
+  samples: number; // Tracker updates folded in
+  objectSums: Record<string, number>; // Per-class track count, summed over samples
+  occupancySum: number;
+}
+
 export interface AnalyticsStats {
   fps: number;
+  pipeline: PipelineStats;
   totalObjects: number;
-  roiEntered: number;
-  roiExited: number;
-}
\ No newline at end of file
+  reidentifications: number; // Dropped tracks recovered by appearance
+  zones: ZoneStats[];
+  lines: TripwireStats[];
+  timeSeries: TimeBin[];
+}
+
+// One tile of the multi-camera grid. Each tile runs its own tracker and ROIs
+export interface CameraSource {
+  id: string;
+  name: string;
+  source: string | MediaStream;
+  sourceKey: string; // Stable name used to save the tile's ROI definition
+  isVideoFile: boolean;
+}
+
+// --- Detection Sessions ---
+
+// One detector result as it reached the tracker
+export interface SessionFrame {
+  timestamp: number; // Tracker clock, ms
+  videoTime: number; // Seconds into the source
+  detections: DetectionResult[]; // Raw detector output, before the detection settings filter
+}
+
+// Recorded detector output plus the setup it ran with, for API-free replay
+export interface DetectionSession {
+  version: 1;
+  createdAt: string; // ISO 8601
+  sourceKey: string;
+  detectorId: string;
+  analysisMode: AnalysisMode;
+  roi: RoiDefinition;
+  trackerConfig: TrackerConfig;
+  detectionSettings: DetectionSettings;
+  frames: SessionFrame[];
+}
+
+// --- Privacy Redaction ---
+
+export type RedactionStyle = 'blur' | 'pixelate';
+
+// 'downscaled' keeps a coarse view of the scene; 'hidden' leaves only overlays
+export type FrameMode = 'full' | 'downscaled' | 'hidden';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  labels: string[]; // Lower-cased classes whose boxes are obscured
+  style: RedactionStyle;
+  blockSize: number; // Pixels per pixelation block / blur strength
+  padding: number; // Box growth on each side, as a fraction of its size
+  frameMode: FrameMode;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { AlertCondition, ZoneStats } from "../types";
+import { AlertContext, createAlertRule, evaluateAlertRules, RuleState } from "./alertRules";
+import { ZoneTransition } from "./roiAnalytics";
+
+const zone = (occupancy: number): ZoneStats => ({
+  zoneId: "z1",
+  name: "Door",
+  color: "#fff",
+  entered: 0,
+  exited: 0,
+  occupancy,
+  avgDwell: null,
+  medianDwell: null,
+  maxDwell: null,
+});
+
+const entry = (trackId: number, label = "person"): ZoneTransition => ({
+  type: "enter",
+  trackId,
+  label,
+  zoneId: "z1",
+  zoneName: "Door",
+  position: { x: 0.5, y: 0.5 },
+});
+
+const ctx = (timestamp: number, occupancy: number, transitions: ZoneTransition[] = []): AlertContext => ({
+  timestamp,
+  zones: [zone(occupancy)],
+  transitions,
+});
+
+// Runs a rule over a sequence of updates and returns the timestamps it fired at
+const run = (condition: AlertCondition, updates: AlertContext[], cooldownSeconds = 60) => {
+  const rule = { ...createAlertRule(condition, "test"), cooldownSeconds };
+  let states: Record<string, RuleState> = {};
+  const firedAt: number[] = [];
+  updates.forEach(update => {
+    const result = evaluateAlertRules([rule], states, update);
+    states = result.states;
+    if (result.fired.length > 0) firedAt.push(update.timestamp);
+  });
+  return firedAt;
+};
+
+describe("alert rules", () => {
+  it("fires an occupancy rule only after the threshold has held for the duration", () => {
+    const condition: AlertCondition = { type: "occupancy", zoneId: "z1", threshold: 2, durationSeconds: 5 };
+    const firedAt = run(condition, [ctx(0, 3), ctx(3000, 3), ctx(4000, 1), ctx(5000, 3), ctx(9000, 4), ctx(10_000, 3)]);
+    expect(firedAt).toEqual([10_000]);
+  });
+
+  it("matches zone entries by label, case-insensitively", () => {
+    const condition: AlertCondition = { type: "zone-entry", zoneId: "", label: "Car" };
+    const firedAt = run(condition, [ctx(0, 1, [entry(1, "person")]), ctx(1000, 1, [entry(2, "car")])], 0);
+    expect(firedAt).toEqual([1000]);
+  });
+
+  it("fires a count-rate rule when entries in the last minute exceed the threshold", () => {
+    const condition: AlertCondition = { type: "count-rate", zoneId: "z1", threshold: 2 };
+    const firedAt = run(condition, [
+      ctx(0, 1, [entry(1), entry(2)]),
+      ctx(61_000, 1, [entry(3)]), // The first two have aged out
+      ctx(62_000, 1, [entry(4), entry(5)]),
+    ], 0);
+    expect(firedAt).toEqual([62_000]);
+  });
+
+  it("suppresses repeats during the cooldown", () => {
+    const condition: AlertCondition = { type: "zone-entry", zoneId: "z1", label: "" };
+    const updates = [0, 10_000, 29_000, 30_000, 45_000].map(t => ctx(t, 1, [entry(t)]));
+    expect(run(condition, updates, 30)).toEqual([0, 30_000]);
+  });
+
+  it("skips disabled rules", () => {
+    const rule = { ...createAlertRule({ type: "zone-entry", zoneId: "", label: "" }, "off"), enabled: false };
+    const result = evaluateAlertRules([rule], {}, ctx(0, 1, [entry(1)]));
+    expect(result.fired).toEqual([]);
+  });
+});
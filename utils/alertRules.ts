@@ -0,0 +1,173 @@
+import { AlertCondition, AlertConfig, AlertEvent, AlertRule, ZoneStats } from "../types";
+import { ZoneTransition } from "./roiAnalytics";
+
+// --- Alert Rule Engine ---
+// Evaluated once per tracker update. Times are on the tracker clock (ms), so
+// durations and cooldowns work the same live and in offline analysis.
+
+export interface RuleState {
+  conditionSince: number | null; // When an occupancy condition started holding
+  lastFired: number | null;
+  entryTimes: number[]; // Recent entries, for count-rate rules
+}
+
+export interface AlertContext {
+  timestamp: number;
+  zones: ZoneStats[];
+  transitions: ZoneTransition[]; // Entries/exits from this update
+}
+
+export interface FiredAlert {
+  rule: AlertRule;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+const initialState = (): RuleState => ({ conditionSince: null, lastFired: null, entryTimes: [] });
+
+let ruleCounter = 0;
+
+export const createAlertRule = (condition: AlertCondition, name: string): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}-${ruleCounter++}`,
+  name,
+  enabled: true,
+  condition,
+  cooldownSeconds: 60,
+  webhook: true,
+});
+
+const matchesZone = (zoneId: string, candidate: string) => zoneId === '' || zoneId === candidate;
+
+const zoneLabel = (zones: ZoneStats[], zoneId: string) => {
+  return zoneId === '' ? 'any zone' : zones.find(z => z.zoneId === zoneId)?.name ?? zoneId;
+};
+
+// Returns a message and details when the condition is met, updating `state` in place
+const checkCondition = (
+  condition: AlertCondition,
+  state: RuleState,
+  ctx: AlertContext
+): Omit<FiredAlert, 'rule'> | null => {
+  switch (condition.type) {
+    case 'occupancy': {
+      const zones = ctx.zones.filter(z => matchesZone(condition.zoneId, z.zoneId));
+      const occupancy = zones.reduce((n, z) => n + z.occupancy, 0);
+      if (occupancy <= condition.threshold) {
+        state.conditionSince = null;
+        return null;
+      }
+      state.conditionSince ??= ctx.timestamp;
+      const heldMs = ctx.timestamp - state.conditionSince;
+      if (heldMs < condition.durationSeconds * 1000) return null;
+      return {
+        message: `Occupancy of ${zoneLabel(ctx.zones, condition.zoneId)} is ${occupancy} (> ${condition.threshold}) for ${(heldMs / 1000).toFixed(0)}s`,
+        details: { zoneId: condition.zoneId, occupancy, threshold: condition.threshold, heldSeconds: heldMs / 1000 },
+      };
+    }
+    case 'zone-entry': {
+      const label = condition.label.trim().toLowerCase();
+      const entry = ctx.transitions.find(t =>
+        t.type === 'enter' && matchesZone(condition.zoneId, t.zoneId) && (label === '' || t.label.toLowerCase() === label)
+      );
+      if (!entry) return null;
+      return {
+        message: `${entry.label} #${entry.trackId} entered ${entry.zoneName}`,
+        details: { zoneId: entry.zoneId, trackId: entry.trackId, label: entry.label, position: entry.position },
+      };
+    }
+    case 'count-rate': {
+      ctx.transitions
+        .filter(t => t.type === 'enter' && matchesZone(condition.zoneId, t.zoneId))
+        .forEach(() => state.entryTimes.push(ctx.timestamp));
+      state.entryTimes = state.entryTimes.filter(t => ctx.timestamp - t < RATE_WINDOW_MS);
+      const count = state.entryTimes.length;
+      if (count <= condition.threshold) return null;
+      return {
+        message: `${count} entries into ${zoneLabel(ctx.zones, condition.zoneId)} in the last minute (> ${condition.threshold})`,
+        details: { zoneId: condition.zoneId, count, threshold: condition.threshold },
+      };
+    }
+  }
+};
+
+// Conditions are tracked even while a rule is cooling down, so an occupancy
+// rule that has held throughout fires again as soon as the cooldown ends.
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  states: Record<string, RuleState>,
+  ctx: AlertContext
+): { states: Record<string, RuleState>; fired: FiredAlert[] } => {
+  const nextStates: Record<string, RuleState> = {};
+  const fired: FiredAlert[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    const previous = states[rule.id] ?? initialState();
+    const state = { ...previous, entryTimes: [...previous.entryTimes] };
+    nextStates[rule.id] = state;
+
+    const result = checkCondition(rule.condition, state, ctx);
+    if (!result) return;
+    const coolingDown = state.lastFired !== null && ctx.timestamp - state.lastFired < rule.cooldownSeconds * 1000;
+    if (coolingDown) return;
+
+    state.lastFired = ctx.timestamp;
+    fired.push({ rule, ...result });
+  });
+
+  return { states: nextStates, fired };
+};
+
+let alertCounter = 0;
+
+export const toAlertEvent = (fired: FiredAlert, timestamp: number, videoTime?: number): AlertEvent => ({
+  id: `alert-${timestamp}-${alertCounter++}`,
+  ruleId: fired.rule.id,
+  ruleName: fired.rule.name,
+  timestamp,
+  message: fired.message,
+  details: videoTime === undefined ? fired.details : { ...fired.details, videoTime },
+});
+
+export const describeCondition = (condition: AlertCondition, zones: { zoneId: string; name: string }[]): string => {
+  const zone = condition.zoneId === '' ? 'any zone' : zones.find(z => z.zoneId === condition.zoneId)?.name ?? 'deleted zone';
+  switch (condition.type) {
+    case 'occupancy':
+      return `Occupancy of ${zone} > ${condition.threshold} for ${condition.durationSeconds}s`;
+    case 'zone-entry':
+      return `${condition.label || 'Anything'} enters ${zone}`;
+    case 'count-rate':
+      return `> ${condition.threshold} entries/min into ${zone}`;
+  }
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = "vision-tracker:alerts";
+
+export const EMPTY_ALERT_CONFIG: AlertConfig = { webhookUrl: "", rules: [] };
+
+export const loadAlertConfig = (): AlertConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_ALERT_CONFIG;
+    const parsed = JSON.parse(raw) as Partial<AlertConfig>;
+    return {
+      webhookUrl: typeof parsed.webhookUrl === "string" ? parsed.webhookUrl : "",
+      rules: Array.isArray(parsed.rules) ? parsed.rules : [],
+    };
+  } catch (e) {
+    console.warn("Ignoring stored alert rules:", e);
+    return EMPTY_ALERT_CONFIG;
+  }
+};
+
+export const saveAlertConfig = (config: AlertConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Could not save alert rules:", e);
+  }
+};
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AlertRule, DetectionResult, RoiZone } from "../types";
+import { AnalysisEngine, AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS, TIME_SERIES_PUBLISH_MS } from "./analysisEngine";
+import { DEFAULT_DETECTION_SETTINGS } from "./detectionSettings";
+import { DEFAULT_REDACTION_SETTINGS, getRedactionBoxes } from "./redaction";
+
+const zone: RoiZone = {
+  id: "door",
+  name: "Door",
+  color: "#ffcc00",
+  points: [
+    { x: 400, y: 0 },
+    { x: 600, y: 0 },
+    { x: 600, y: 1000 },
+    { x: 400, y: 1000 },
+  ],
+};
+
+const entryRule: AlertRule = {
+  id: "rule-1",
+  name: "Someone at the door",
+  enabled: true,
+  condition: { type: "zone-entry", zoneId: "door", label: "" },
+  cooldownSeconds: 0,
+  webhook: false,
+};
+
+const settings: AnalysisSettings = { ...DEFAULT_ANALYSIS_SETTINGS, zones: [zone], alertRules: [entryRule] };
+
+const personAt = (cx: number): DetectionResult => ({ label: "person", box_2d: [450, cx - 20, 550, cx + 20] });
+
+// One person walking left to right across the door zone, five updates a second
+const walkAcross = (engine: AnalysisEngine) =>
+  Array.from({ length: 17 }, (_, i) => engine.apply([personAt(100 + i * 50)], i * 200, i * 0.2));
+
+describe("AnalysisEngine", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts zone entries and exits and fires alerts from detector results", () => {
+    const engine = new AnalysisEngine(settings);
+    const updates = walkAcross(engine);
+
+    const last = updates[updates.length - 1];
+    expect(last.render.tracks).toHaveLength(1);
+    expect(last.stats.zones?.[0]).toMatchObject({ zoneId: "door", entered: 1, exited: 1, occupancy: 0 });
+    expect(updates.flatMap(u => u.events).map(e => e.type)).toEqual(["enter", "exit"]);
+    expect(updates.flatMap(u => u.alerts).map(a => a.ruleId)).toEqual(["rule-1"]);
+    expect(engine.getMotHistory()).toHaveLength(17);
+  });
+
+  it("drops the counts of zones that were deleted", () => {
+    const engine = new AnalysisEngine(settings);
+    walkAcross(engine);
+
+    engine.configure({ ...settings, zones: [] });
+    engine.configure(settings);
+    expect(engine.getStats().stats.zones?.[0]).toMatchObject({ entered: 0, exited: 0 });
+  });
+
+  it("sends changed time series bins at most once per publish interval", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const engine = new AnalysisEngine(settings);
+
+    expect(engine.apply([personAt(100)], 0, 0).timeSeries?.bins).toHaveLength(1);
+    vi.setSystemTime(TIME_SERIES_PUBLISH_MS / 2);
+    expect(engine.apply([personAt(150)], 200, 0.2).timeSeries).toBeUndefined();
+    vi.setSystemTime(TIME_SERIES_PUBLISH_MS);
+    // Still the same 5 s bin, so it is sent again in place of the old one
+    const changed = engine.apply([personAt(200)], 400, 0.4).timeSeries;
+    expect(changed).toMatchObject({ drop: 0, keep: 0 });
+    expect(changed?.bins.map(b => b.samples)).toEqual([3]);
+    vi.setSystemTime(2 * TIME_SERIES_PUBLISH_MS);
+    const appended = engine.apply([personAt(250)], 5000, 1).timeSeries;
+    expect(appended).toMatchObject({ drop: 0, keep: 1 });
+    expect(appended?.bins.map(b => b.start)).toEqual([5000]);
+    expect(engine.getStats().timeSeries).toEqual({ drop: 0, keep: 2, bins: [] });
+  });
+
+  it("sends tracks without their motion uncertainty or visit history", () => {
+    const engine = new AnalysisEngine(settings);
+    const updates = walkAcross(engine);
+
+    const inside = updates[8].render.tracks[0];
+    expect(Object.keys(inside).sort()).toEqual(["box", "color", "id", "kinematics", "label", "motion", "openVisits", "trajectory"]);
+    expect(inside.motion).not.toHaveProperty("covX");
+    expect(inside.openVisits).toEqual([{ zoneId: "door", enteredAt: expect.any(Number) }]);
+    expect(updates[16].render.tracks[0].openVisits).toEqual([]);
+  });
+
+  it("redacts classes the class filter keeps from the tracker", () => {
+    const engine = new AnalysisEngine({
+      ...settings,
+      detectionSettings: { ...DEFAULT_DETECTION_SETTINGS, targetClasses: ["forklift"], minConfidence: 0.5 },
+      redactionLabels: ["person"],
+    });
+    const forklift: DetectionResult = { label: "forklift", box_2d: [300, 300, 500, 500], confidence: 0.9 };
+    const shy = { ...personAt(800), confidence: 0.2 };
+    const { render } = engine.apply([personAt(100), forklift, shy], 0, 0);
+
+    expect(render.tracks.map(t => t.label)).toEqual(["forklift"]);
+    expect(render.redactions.map(r => r.box.xmin)).toEqual([80, 780]);
+    const redaction = { ...DEFAULT_REDACTION_SETTINGS, enabled: true, labels: ["person"], padding: 0 };
+    expect(getRedactionBoxes([...render.tracks, ...render.redactions], redaction, 500)).toHaveLength(2);
+  });
+
+  it("only sends the heatmap while it is shown and after it changed", () => {
+    const engine = new AnalysisEngine(settings);
+    expect(engine.apply([personAt(100)], 0, 0).heatmap).toBeUndefined();
+
+    engine.configure({ ...settings, includeHeatmap: true });
+    expect(engine.apply([personAt(150)], 200, 0.2).heatmap).toBeDefined();
+    expect(engine.apply([], 400, 0.4).heatmap).toBeUndefined(); // A coasting track adds nothing
+  });
+
+  it("starts over on reset but keeps the settings", () => {
+    const engine = new AnalysisEngine(settings);
+    walkAcross(engine);
+
+    engine.reset();
+    expect(engine.getMotHistory()).toEqual([]);
+    const { stats, timeSeries } = engine.getStats();
+    expect(stats.totalObjects).toBe(0);
+    expect(stats.zones?.[0]).toMatchObject({ zoneId: "door", entered: 0 });
+    expect(timeSeries).toEqual({ drop: 0, keep: 0, bins: [] });
+    expect(engine.apply([personAt(100)], 0, 0).render.tracks[0].id).toBe(1);
+  });
+});
@@ -0,0 +1,276 @@
+import { AlertEvent, AlertRule, AnalyticsStats, AppearanceDescriptor, BoundingBox, DetectionResult, DetectionSettings, MotionEstimate, Point, RoiEvent, RoiZone, TimeBin, TrackedObject, TrackerConfig, TrackKinematics, Tripwire, TripwireStats, ZoneStats } from "../types";
+import { evaluateAlertRules, RuleState, toAlertEvent } from "./alertRules";
+import { DEFAULT_DETECTION_SETTINGS, filterDetections } from "./detectionSettings";
+import { toRoiEvent } from "./eventLog";
+import { addTracksToHeatmap, createHeatmap, Heatmap } from "./heatmap";
+import { Homography } from "./homography";
+import { detectionToBox } from "./mathUtils";
+import { MAX_MOT_RECORDS, MotRecord, videoTimeToMotFrame } from "./motFormat";
+import { addDwells, addZoneCounts, buildZoneStats, getOpenVisits, updateZoneAnalytics, ZoneCounts } from "./roiAnalytics";
+import { updateKinematics } from "./speedEstimation";
+import { diffBins, recordBinSample, summarizeUpdate, TimeSeriesPatch } from "./timeSeries";
+import { DEFAULT_TRACKER_CONFIG, Tracker } from "./tracker";
+import { addLineCounts, buildLineStats, countLineCrossings, LineCounts } from "./tripwireAnalytics";
+
+// --- Analysis Engine ---
+// Everything one camera does with a detector result: tracking, zone and
+// tripwire counts, kinematics, dwell, the time series, alert rules, the
+// heatmap and the MOT history. Runs inside the analysis worker; the canvas
+// only gets back what it needs to draw and what the dashboard shows.
+
+// What the engine needs from the UI; sent again whenever any of it changes
+export interface AnalysisSettings {
+  zones: RoiZone[];
+  lines: Tripwire[];
+  alertRules: AlertRule[];
+  detectionSettings: DetectionSettings;
+  trackerConfig: TrackerConfig;
+  homography: Homography | null;
+  isVideoFile: boolean; // Events and MOT frames carry the video position
+  includeHeatmap: boolean; // Send the heatmap with updates, while its overlay is shown
+  redactionLabels: string[]; // Lower-cased; sent back for redaction even when filtered out
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  zones: [],
+  lines: [],
+  alertRules: [],
+  detectionSettings: DEFAULT_DETECTION_SETTINGS,
+  trackerConfig: DEFAULT_TRACKER_CONFIG,
+  homography: null,
+  isVideoFile: false,
+  includeHeatmap: false,
+  redactionLabels: [],
+};
+
+// A track as the canvas draws it. Motion covariances, the zone visit history
+// and appearance descriptors stay in the worker.
+export interface RenderTrack {
+  id: number;
+  label: string;
+  box: BoundingBox;
+  color: string;
+  trajectory: Point[];
+  motion: MotionEstimate; // Redaction boxes reach ahead to the predicted position
+  openVisits: { zoneId: string; enteredAt: number }[]; // Live dwell timers
+  kinematics?: TrackKinematics;
+}
+
+// What the canvas draws from, between updates
+export interface RenderState {
+  tracks: RenderTrack[];
+  redactions: { label: string; box: BoundingBox }[]; // Redacted-class detections the filters kept from the tracker
+  zones: ZoneStats[]; // For the burned-in HUD
+  lines: TripwireStats[]; // Per-direction counts drawn on each line
+  updatedAt: number; // Tracker clock of the update, for live dwell timers
+  motFrame: number; // MOT frame number of the update, to line up imported ground truth
+}
+
+export const EMPTY_RENDER_STATE: RenderState = { tracks: [], redactions: [], zones: [], lines: [], updatedAt: 0, motFrame: 0 };
+
+// Dashboard stats; the time series comes as a patch to the bins sent before
+export interface StatsUpdate {
+  stats: Partial<AnalyticsStats>;
+  timeSeries?: TimeSeriesPatch; // At most every TIME_SERIES_PUBLISH_MS during a run
+}
+
+export interface AnalysisUpdate extends StatsUpdate {
+  render: RenderState;
+  events: RoiEvent[];
+  alerts: AlertEvent[];
+  heatmap?: Heatmap; // Only when it changed and `includeHeatmap` is set
+}
+
+// The last time series bin changes on every update; sending it once a second is enough
+export const TIME_SERIES_PUBLISH_MS = 1000;
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const toRenderTrack = (track: TrackedObject): RenderTrack => {
+  const { covX: _covX, covY: _covY, ...motion } = track.motion;
+  return {
+    id: track.id,
+    label: track.label,
+    box: track.box,
+    color: track.color,
+    trajectory: track.trajectory,
+    motion,
+    openVisits: getOpenVisits(track).map(({ zoneId, enteredAt }) => ({ zoneId, enteredAt })),
+    kinematics: track.kinematics,
+  };
+};
+
+export class AnalysisEngine {
+  private settings: AnalysisSettings;
+  private tracker: Tracker;
+  private tracks: TrackedObject[] = [];
+  private lostTracks: TrackedObject[] = []; // Dropped, with zone visits open until re-identification gives up
+  private zoneCounts: Record<string, ZoneCounts> = {};
+  private lineCounts: Record<string, LineCounts> = {};
+  private dwells: Record<string, number[]> = {};
+  private timeSeries: TimeBin[] = [];
+  private publishedBins: TimeBin[] = []; // The time series as the canvas has it
+  private alertStates: Record<string, RuleState> = {};
+  private motHistory: MotRecord[] = [];
+  private motFrame = 0; // Update counter, used as the frame number for live streams
+  private heatmap = createHeatmap();
+  private sentHeatmapVersion = -1;
+  private timeSeriesSentAt = -Infinity; // Wall clock, ms
+
+  constructor(settings: AnalysisSettings = DEFAULT_ANALYSIS_SETTINGS) {
+    this.settings = settings;
+    this.tracker = new Tracker(settings.trackerConfig);
+  }
+
+  // Counts of deleted zones and lines are dropped; a changed calibration drops
+  // distances measured under the old one; tracks survive tracker config changes
+  configure(settings: AnalysisSettings): void {
+    const previous = this.settings;
+    this.settings = settings;
+
+    if (!sameJson(previous.trackerConfig, settings.trackerConfig)) {
+      this.tracker.restore({ ...this.tracker.snapshot(), config: settings.trackerConfig });
+    }
+    if (!sameJson(previous.homography, settings.homography)) {
+      this.tracks = this.tracks.map(({ kinematics: _kinematics, ...track }) => track);
+      this.lostTracks = this.lostTracks.map(({ kinematics: _kinematics, ...track }) => track);
+    }
+    const zoneIds = new Set(settings.zones.map(z => z.id));
+    this.zoneCounts = Object.fromEntries(Object.entries(this.zoneCounts).filter(([id]) => zoneIds.has(id)));
+    this.dwells = Object.fromEntries(Object.entries(this.dwells).filter(([id]) => zoneIds.has(id)));
+    const lineIds = new Set(settings.lines.map(l => l.id));
+    this.lineCounts = Object.fromEntries(Object.entries(this.lineCounts).filter(([id]) => lineIds.has(id)));
+    if (settings.includeHeatmap && !previous.includeHeatmap) this.sentHeatmapVersion = -1;
+  }
+
+  // Fresh tracker and counts; the settings are kept
+  reset(): void {
+    this.tracker = new Tracker(this.settings.trackerConfig);
+    this.tracks = [];
+    this.lostTracks = [];
+    this.zoneCounts = {};
+    this.lineCounts = {};
+    this.dwells = {};
+    this.timeSeries = [];
+    this.publishedBins = [];
+    this.alertStates = {};
+    this.motHistory = [];
+    this.motFrame = 0;
+    this.timeSeriesSentAt = -Infinity;
+    this.resetHeatmap();
+  }
+
+  resetHeatmap(): void {
+    this.heatmap = createHeatmap();
+    this.sentHeatmapVersion = -1;
+  }
+
+  getHeatmap(): Heatmap {
+    return this.heatmap;
+  }
+
+  getMotHistory(): MotRecord[] {
+    return this.motHistory;
+  }
+
+  // Current dashboard stats, with the time series patch up to date
+  getStats(): StatsUpdate {
+    const { zones, lines } = this.settings;
+    return {
+      stats: {
+        totalObjects: this.tracks.length,
+        reidentifications: this.tracker.getReidentifications(),
+        zones: buildZoneStats(zones, this.zoneCounts, this.tracks, this.dwells),
+        lines: buildLineStats(lines, this.lineCounts),
+      },
+      timeSeries: this.publishTimeSeries(Date.now()),
+    };
+  }
+
+  private publishTimeSeries(wallTime: number): TimeSeriesPatch {
+    const patch = diffBins(this.publishedBins, this.timeSeries);
+    this.publishedBins = this.timeSeries;
+    this.timeSeriesSentAt = wallTime;
+    return patch;
+  }
+
+  // Run one detection result through the tracker and all analytics.
+  // `timestamp` is in ms; `videoTime` is the file position the frame came from.
+  // `describe` returns appearance descriptors for the detections that pass the filters.
+  apply(
+    detections: DetectionResult[],
+    timestamp: number,
+    videoTime: number,
+    describe?: (detections: DetectionResult[]) => (AppearanceDescriptor | null)[]
+  ): AnalysisUpdate {
+    const { zones, lines, alertRules, detectionSettings, homography, isVideoFile } = this.settings;
+    const position = isVideoFile ? videoTime : undefined;
+
+    // Run Tracker Update
+    const previousTracks = this.tracks;
+    const filtered = filterDetections(detections, detectionSettings);
+    const trackerOutput = this.tracker.update(filtered, timestamp, describe?.(filtered));
+    const redactionLabels = new Set(this.settings.redactionLabels);
+    const redactions = detections
+      .filter(d => !filtered.includes(d) && redactionLabels.has(d.label.trim().toLowerCase()))
+      .map(d => ({ label: d.label, box: detectionToBox(d) }));
+
+    // ROI Logic: Check state changes for Entry/Exit and dwell in every zone
+    const zoneUpdate = updateZoneAnalytics(previousTracks, trackerOutput, zones, timestamp, this.lostTracks, this.tracker.getGalleryIds());
+    const tracks = homography ? updateKinematics(previousTracks, zoneUpdate.tracks, homography, this.lostTracks) : zoneUpdate.tracks;
+    this.zoneCounts = addZoneCounts(this.zoneCounts, zoneUpdate.transitions);
+    this.dwells = addDwells(this.dwells, zoneUpdate.dwells);
+
+    // Per-frame history for MOTChallenge export; only tracks seen in this frame
+    this.motFrame++;
+    const motFrame = isVideoFile ? videoTimeToMotFrame(videoTime) : this.motFrame;
+    tracks.forEach(track => {
+      if (track.misses === 0) {
+        this.motHistory.push({ frame: motFrame, id: track.id, box: track.box, confidence: 1 });
+      }
+    });
+    if (this.motHistory.length > MAX_MOT_RECORDS) {
+      this.motHistory.splice(0, this.motHistory.length - MAX_MOT_RECORDS);
+    }
+    const wallTime = Date.now();
+    const events = zoneUpdate.events.map(t => toRoiEvent(t, wallTime, position));
+
+    addTracksToHeatmap(this.heatmap, tracks);
+    this.timeSeries = recordBinSample(this.timeSeries, timestamp, summarizeUpdate(zoneUpdate.transitions, tracks));
+
+    // Tripwire Logic: Directional crossings between consecutive trajectory points
+    const crossings = countLineCrossings(previousTracks, tracks, lines);
+    this.lineCounts = addLineCounts(this.lineCounts, crossings);
+
+    const zoneStats = buildZoneStats(zones, this.zoneCounts, tracks, this.dwells);
+    const lineStats = buildLineStats(lines, this.lineCounts);
+    const alertResult = evaluateAlertRules(alertRules, this.alertStates, {
+      timestamp,
+      zones: zoneStats,
+      transitions: zoneUpdate.events,
+    });
+    this.alertStates = alertResult.states;
+    this.tracks = tracks;
+    this.lostTracks = zoneUpdate.lost;
+
+    const update: AnalysisUpdate = {
+      render: { tracks: tracks.map(toRenderTrack), redactions, zones: zoneStats, lines: lineStats, updatedAt: timestamp, motFrame },
+      stats: {
+        totalObjects: tracks.length,
+        reidentifications: this.tracker.getReidentifications(),
+        zones: zoneStats,
+        lines: lineStats,
+      },
+      events,
+      alerts: alertResult.fired.map(f => toAlertEvent(f, wallTime, position)),
+    };
+    if (wallTime - this.timeSeriesSentAt >= TIME_SERIES_PUBLISH_MS) {
+      update.timeSeries = this.publishTimeSeries(wallTime);
+    }
+    if (this.settings.includeHeatmap && this.heatmap.version !== this.sentHeatmapVersion) {
+      update.heatmap = this.heatmap;
+      this.sentHeatmapVersion = this.heatmap.version;
+    }
+    return update;
+  }
+}
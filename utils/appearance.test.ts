@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { blendAppearance, computeDescriptor, DESCRIPTOR_LENGTH, getAppearanceSimilarity } from "./appearance";
+
+const WIDTH = 12;
+const HEIGHT = 24;
+
+// RGBA crop with one color on top and another below, plus optional seeded noise
+const crop = (top: number[], bottom: number[], noise = 0) => {
+  const pixels: number[] = [];
+  let seed = 7;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const color = y < HEIGHT / 2 ? top : bottom;
+      color.forEach(c => {
+        seed = (seed * 16807) % 2147483647;
+        pixels.push(Math.max(0, Math.min(255, c + ((seed / 2147483647) * 2 - 1) * noise)));
+      });
+      pixels.push(255);
+    }
+  }
+  return computeDescriptor(pixels, WIDTH, HEIGHT);
+};
+
+const RED = [200, 30, 30];
+const BLUE = [30, 40, 190];
+const GRAY = [90, 90, 90];
+
+describe("appearance descriptors", () => {
+  it("normalizes every part of the descriptor", () => {
+    const descriptor = crop(RED, GRAY);
+
+    expect(descriptor).toHaveLength(DESCRIPTOR_LENGTH);
+    expect(descriptor.reduce((sum, v) => sum + v, 0)).toBeCloseTo(5);
+    expect(getAppearanceSimilarity(descriptor, descriptor)).toBeCloseTo(1);
+  });
+
+  it("stays similar under noise and exposure changes", () => {
+    const reference = crop(RED, GRAY);
+
+    expect(getAppearanceSimilarity(reference, crop(RED, GRAY, 20))).toBeGreaterThan(0.8);
+    expect(getAppearanceSimilarity(reference, crop([160, 25, 25], [70, 70, 70]))).toBeGreaterThan(0.8);
+  });
+
+  it("separates different colors and different clothing halves", () => {
+    const redOverGray = crop(RED, GRAY);
+
+    expect(getAppearanceSimilarity(redOverGray, crop(BLUE, GRAY))).toBeLessThan(0.8);
+    expect(getAppearanceSimilarity(redOverGray, crop(GRAY, RED))).toBeLessThan(0.8);
+    expect(getAppearanceSimilarity(redOverGray, [1, 2, 3])).toBe(0);
+  });
+
+  it("blends a new sighting into the running descriptor", () => {
+    const red = crop(RED, RED);
+    const blue = crop(BLUE, BLUE);
+    const blended = blendAppearance(red, blue, 0.25);
+
+    expect(blendAppearance(undefined, blue)).toBe(blue);
+    expect(blended.reduce((sum, v) => sum + v, 0)).toBeCloseTo(5);
+    expect(getAppearanceSimilarity(blended, red)).toBeGreaterThan(getAppearanceSimilarity(blended, blue));
+  });
+});
@@ -0,0 +1,159 @@
+import { AppearanceDescriptor, DetectionResult } from "../types";
+import { detectionToBox } from "./mathUtils";
+
+// --- Appearance Descriptors ---
+// A small signature of what a detection looks like: hue histograms of the upper
+// and lower half of the crop (shirt and trousers, car body and wheels),
+// saturation and brightness histograms, and a histogram of edge orientations.
+// Each part is normalized on its own, so crop size and exposure matter little.
+
+const HUE_BINS = 12; // Plus one bin for pixels too gray or dark to have a hue
+const TONE_BINS = 4;
+const GRADIENT_BINS = 8;
+
+interface DescriptorPart {
+  offset: number;
+  length: number;
+  weight: number; // Share of the similarity score
+}
+
+const UPPER_HUE: DescriptorPart = { offset: 0, length: HUE_BINS + 1, weight: 0.3 };
+const LOWER_HUE: DescriptorPart = { offset: HUE_BINS + 1, length: HUE_BINS + 1, weight: 0.3 };
+const SATURATION: DescriptorPart = { offset: 2 * (HUE_BINS + 1), length: TONE_BINS, weight: 0.1 };
+const VALUE: DescriptorPart = { offset: 2 * (HUE_BINS + 1) + TONE_BINS, length: TONE_BINS, weight: 0.1 };
+const GRADIENT: DescriptorPart = { offset: 2 * (HUE_BINS + 1) + 2 * TONE_BINS, length: GRADIENT_BINS, weight: 0.2 };
+const PARTS = [UPPER_HUE, LOWER_HUE, SATURATION, VALUE, GRADIENT];
+
+export const DESCRIPTOR_LENGTH = GRADIENT.offset + GRADIENT.length;
+
+// Pixels below this saturation or brightness have no reliable hue
+const MIN_CHROMA = 0.25;
+
+// Weaker brightness steps (0-1 scale) between neighbours are mostly sensor noise
+const MIN_EDGE = 0.1;
+
+// Weight of a new detection in a track's running descriptor
+export const APPEARANCE_SMOOTHING = 0.2;
+
+// Crops are resampled to this size before the descriptor is computed
+export const CROP_WIDTH = 24;
+export const CROP_HEIGHT = 48;
+
+// Each side of a box is pulled in by this fraction so less background is sampled
+const CROP_INSET = 0.1;
+
+const toBin = (value: number, bins: number) => Math.min(bins - 1, Math.floor(value * bins));
+
+// Hue in [0, 1) of an RGB color with channels in [0, 1]
+const getHue = (r: number, g: number, b: number, max: number, delta: number): number => {
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  return ((hue / 6) % 1 + 1) % 1;
+};
+
+// Bins are centered on the primaries, so noise around pure red doesn't split
+// between the first and the last bin
+const getHueBin = (hue: number) => Math.round(hue * HUE_BINS) % HUE_BINS;
+
+// Empty parts (e.g. no edges at all) become uniform, so two flat crops still match
+const normalizePart = (descriptor: number[], part: DescriptorPart) => {
+  let total = 0;
+  for (let k = 0; k < part.length; k++) total += descriptor[part.offset + k];
+  for (let k = 0; k < part.length; k++) {
+    descriptor[part.offset + k] = total > 0 ? descriptor[part.offset + k] / total : 1 / part.length;
+  }
+};
+
+// Descriptor of an RGBA pixel buffer (as in ImageData), row-major
+export const computeDescriptor = (rgba: ArrayLike<number>, width: number, height: number): AppearanceDescriptor => {
+  const descriptor: number[] = new Array(DESCRIPTOR_LENGTH).fill(0);
+  const gray = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const hue = y < height / 2 ? UPPER_HUE : LOWER_HUE;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = rgba[i] / 255, g = rgba[i + 1] / 255, b = rgba[i + 2] / 255;
+      const max = Math.max(r, g, b);
+      const delta = max - Math.min(r, g, b);
+      const saturation = max === 0 ? 0 : delta / max;
+
+      if (saturation < MIN_CHROMA || max < MIN_CHROMA) descriptor[hue.offset + HUE_BINS]++;
+      else descriptor[hue.offset + getHueBin(getHue(r, g, b, max, delta))]++;
+      descriptor[SATURATION.offset + toBin(saturation, TONE_BINS)]++;
+      descriptor[VALUE.offset + toBin(max, TONE_BINS)]++;
+      gray[y * width + x] = 0.299 * r + 0.587 * g + 0.114 * b;
+    }
+  }
+
+  // Unsigned edge orientation, weighted by edge strength
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = gray[y * width + x + 1] - gray[y * width + x - 1];
+      const gy = gray[(y + 1) * width + x] - gray[(y - 1) * width + x];
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude < MIN_EDGE) continue;
+      let angle = Math.atan2(gy, gx);
+      if (angle < 0) angle += Math.PI;
+      descriptor[GRADIENT.offset + toBin(angle / Math.PI, GRADIENT_BINS)] += magnitude;
+    }
+  }
+
+  PARTS.forEach(part => normalizePart(descriptor, part));
+  return descriptor;
+};
+
+// Weighted Bhattacharyya coefficient of the parts: 1 for identical descriptors, 0 for disjoint ones
+export const getAppearanceSimilarity = (a: AppearanceDescriptor, b: AppearanceDescriptor): number => {
+  if (a.length !== DESCRIPTOR_LENGTH || b.length !== DESCRIPTOR_LENGTH) return 0;
+  return PARTS.reduce((sum, part) => {
+    let coefficient = 0;
+    for (let k = part.offset; k < part.offset + part.length; k++) coefficient += Math.sqrt(a[k] * b[k]);
+    return sum + part.weight * coefficient;
+  }, 0);
+};
+
+// Running average, so one badly cropped frame doesn't replace a track's look
+export const blendAppearance = (
+  previous: AppearanceDescriptor | undefined,
+  next: AppearanceDescriptor,
+  weight = APPEARANCE_SMOOTHING
+): AppearanceDescriptor => {
+  if (!previous || previous.length !== next.length) return next;
+  return previous.map((value, i) => value * (1 - weight) + next[i] * weight);
+};
+
+// --- Frame Crops (Worker) ---
+
+let cropCanvas: OffscreenCanvas | null = null;
+
+// Descriptors for each detection from the frame it was detected in; null where
+// the box is too small or the pixels can't be read
+export const extractAppearances = (frame: ImageBitmap, detections: DetectionResult[]): (AppearanceDescriptor | null)[] => {
+  const { width, height } = frame;
+  cropCanvas ??= new OffscreenCanvas(CROP_WIDTH, CROP_HEIGHT);
+  const ctx = cropCanvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx || width === 0 || height === 0) return detections.map(() => null);
+
+  return detections.map(detection => {
+    const box = detectionToBox(detection);
+    const insetX = (box.xmax - box.xmin) * CROP_INSET;
+    const insetY = (box.ymax - box.ymin) * CROP_INSET;
+    const x0 = Math.max(0, ((box.xmin + insetX) / 1000) * width);
+    const y0 = Math.max(0, ((box.ymin + insetY) / 1000) * height);
+    const x1 = Math.min(width, ((box.xmax - insetX) / 1000) * width);
+    const y1 = Math.min(height, ((box.ymax - insetY) / 1000) * height);
+    if (x1 - x0 < 2 || y1 - y0 < 2) return null;
+
+    ctx.clearRect(0, 0, CROP_WIDTH, CROP_HEIGHT);
+    ctx.drawImage(frame, x0, y0, x1 - x0, y1 - y0, 0, 0, CROP_WIDTH, CROP_HEIGHT);
+    try {
+      return computeDescriptor(ctx.getImageData(0, 0, CROP_WIDTH, CROP_HEIGHT).data, CROP_WIDTH, CROP_HEIGHT);
+    } catch {
+      // Frames from cross-origin sources taint the canvas; re-identification just sees no appearance
+      return null;
+    }
+  });
+};
@@ -0,0 +1,101 @@
+// --- Track/Detection Assignment Solvers ---
+// Both solvers take a rows x cols cost matrix where `Infinity` marks a gated
+// (forbidden) pair, and return, for each row, the assigned column or -1.
+
+// Walks rows in order and takes the cheapest free column. Cheap, but the result
+// depends on row order, which causes ID swaps when targets are close together.
+export const solveGreedy = (cost: number[][]): number[] => {
+  const cols = cost[0]?.length ?? 0;
+  const taken = new Array<boolean>(cols).fill(false);
+
+  return cost.map(row => {
+    let best = -1;
+    for (let j = 0; j < cols; j++) {
+      if (!taken[j] && Number.isFinite(row[j]) && (best === -1 || row[j] < row[best])) {
+        best = j;
+      }
+    }
+    if (best !== -1) taken[best] = true;
+    return best;
+  });
+};
+
+// Hungarian (Kuhn-Munkres) algorithm with row/column potentials, O(n^3).
+// The matrix is padded to square; gated pairs get a cost larger than any
+// feasible assignment and are reported as unassigned.
+export const solveHungarian = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  const cols = cost[0]?.length ?? 0;
+  if (rows === 0 || cols === 0) return new Array<number>(rows).fill(-1);
+
+  const n = Math.max(rows, cols);
+  let maxFinite = 0;
+  for (const row of cost) {
+    for (const c of row) {
+      if (Number.isFinite(c)) maxFinite = Math.max(maxFinite, Math.abs(c));
+    }
+  }
+  const forbidden = (maxFinite + 1) * n * 2;
+
+  // 1-indexed matrix as in the classic formulation; padding rows/cols cost 0
+  const a = (i: number, j: number): number => {
+    if (i > rows || j > cols) return 0;
+    const c = cost[i - 1][j - 1];
+    return Number.isFinite(c) ? c : forbidden;
+  };
+
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const p = new Array<number>(n + 1).fill(0); // p[j] = row matched to column j
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = a(i0, j) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const result = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    const i = p[j];
+    if (i >= 1 && i <= rows && Number.isFinite(cost[i - 1][j - 1])) {
+      result[i - 1] = j - 1;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { AnalyticsStats, ZoneStats } from "../types";
+import { aggregateCameraStats, createCamera, EMPTY_ANALYTICS_STATS, getGridColumns, listCameraZones } from "./cameraGrid";
+
+const zone = (zoneId: string, entered: number, exited: number, occupancy: number): ZoneStats => ({
+  zoneId,
+  name: zoneId,
+  color: "#fff",
+  entered,
+  exited,
+  occupancy,
+  avgDwell: null,
+  medianDwell: null,
+  maxDwell: null,
+});
+
+const stats = (totalObjects: number, zones: ZoneStats[], crossings = 0): AnalyticsStats => ({
+  ...EMPTY_ANALYTICS_STATS,
+  totalObjects,
+  zones,
+  lines: crossings > 0 ? [{ lineId: "l", name: "Line", color: "#fff", countAB: crossings, countBA: 1 }] : [],
+});
+
+describe("camera grid", () => {
+  const north = createCamera("North", "blob:north", "file:north.mp4:1", true);
+  const south = createCamera("South", "blob:south", "file:south.mp4:2", true);
+  const east = createCamera("East", "blob:east", "file:east.mp4:3", true);
+
+  it("lays tiles out in a near-square grid", () => {
+    expect([1, 2, 3, 4, 5, 9].map(getGridColumns)).toEqual([1, 2, 2, 2, 3, 3]);
+  });
+
+  it("totals stats across cameras and keeps per-camera rows", () => {
+    const { totals, cameras } = aggregateCameraStats([north, south, east], {
+      [north.id]: stats(3, [zone("a", 5, 2, 1), zone("b", 1, 1, 0)], 2),
+      [south.id]: { ...stats(4, [zone("c", 2, 0, 2)]), reidentifications: 2 },
+      // East hasn't reported yet
+    });
+
+    expect(totals).toEqual({ objects: 7, occupancy: 3, entered: 8, exited: 3, crossings: 3, reidentifications: 2 });
+    expect(cameras.map(c => [c.name, c.entered, c.zoneCount])).toEqual([["North", 6, 2], ["South", 2, 1], ["East", 0, 0]]);
+  });
+
+  it("prefixes zone names with the camera once several are open", () => {
+    const statsById = { [north.id]: stats(0, [zone("a", 0, 0, 0)]), [south.id]: stats(0, [zone("c", 0, 0, 0)]) };
+    expect(listCameraZones([north], statsById).map(z => z.name)).toEqual(["a"]);
+    expect(listCameraZones([north, south], statsById).map(z => z.name)).toEqual(["North · a", "South · c"]);
+  });
+});
@@ -0,0 +1,100 @@
+import { AnalyticsStats, CameraSource, ZoneStats } from "../types";
+import { EMPTY_PIPELINE_STATS } from "./frameScheduler";
+
+// --- Multi-Camera Grid ---
+
+export const MAX_CAMERAS = 9;
+
+export const EMPTY_ANALYTICS_STATS: AnalyticsStats = {
+  fps: 0,
+  pipeline: EMPTY_PIPELINE_STATS,
+  totalObjects: 0,
+  reidentifications: 0,
+  zones: [],
+  lines: [],
+  timeSeries: [],
+};
+
+let cameraSeq = 0;
+
+export const createCamera = (
+  name: string,
+  source: string | MediaStream,
+  sourceKey: string,
+  isVideoFile: boolean
+): CameraSource => ({
+  id: `cam-${Date.now().toString(36)}-${cameraSeq++}`,
+  name,
+  source,
+  sourceKey,
+  isVideoFile,
+});
+
+// Stops webcam streams and frees object URLs of uploaded files
+export const releaseCamera = (camera: CameraSource) => {
+  if (typeof camera.source === "string") {
+    URL.revokeObjectURL(camera.source);
+  } else {
+    camera.source.getTracks().forEach(t => t.stop());
+  }
+};
+
+// Near-square layout: 1, 2, 4 cameras in 1-2 columns, up to 9 in 3
+export const getGridColumns = (count: number): number => Math.max(1, Math.ceil(Math.sqrt(count)));
+
+// --- Aggregation ---
+
+export interface CameraTotals {
+  objects: number;
+  occupancy: number; // Tracks inside any zone
+  entered: number;
+  exited: number;
+  crossings: number; // Tripwire crossings in both directions
+  reidentifications: number;
+}
+
+export interface CameraSummary extends CameraTotals {
+  cameraId: string;
+  name: string;
+  fps: number;
+  zoneCount: number;
+}
+
+const EMPTY_TOTALS: CameraTotals = { objects: 0, occupancy: 0, entered: 0, exited: 0, crossings: 0, reidentifications: 0 };
+
+export const summarizeCamera = (camera: CameraSource, stats: AnalyticsStats): CameraSummary => ({
+  cameraId: camera.id,
+  name: camera.name,
+  fps: stats.fps,
+  zoneCount: stats.zones.length,
+  objects: stats.totalObjects,
+  occupancy: stats.zones.reduce((n, z) => n + z.occupancy, 0),
+  entered: stats.zones.reduce((n, z) => n + z.entered, 0),
+  exited: stats.zones.reduce((n, z) => n + z.exited, 0),
+  crossings: stats.lines.reduce((n, l) => n + l.countAB + l.countBA, 0),
+  reidentifications: stats.reidentifications,
+});
+
+// Cameras that haven't reported yet count as empty
+export const aggregateCameraStats = (
+  cameras: CameraSource[],
+  statsById: Record<string, AnalyticsStats>
+): { totals: CameraTotals; cameras: CameraSummary[] } => {
+  const summaries = cameras.map(c => summarizeCamera(c, statsById[c.id] ?? EMPTY_ANALYTICS_STATS));
+  const totals = summaries.reduce<CameraTotals>((sum, s) => ({
+    objects: sum.objects + s.objects,
+    occupancy: sum.occupancy + s.occupancy,
+    entered: sum.entered + s.entered,
+    exited: sum.exited + s.exited,
+    crossings: sum.crossings + s.crossings,
+    reidentifications: sum.reidentifications + s.reidentifications,
+  }), EMPTY_TOTALS);
+  return { totals, cameras: summaries };
+};
+
+// Zones of every camera, named "Camera · Zone" once there is more than one camera
+export const listCameraZones = (cameras: CameraSource[], statsById: Record<string, AnalyticsStats>): ZoneStats[] => {
+  return cameras.flatMap(c => (statsById[c.id]?.zones ?? []).map(z => (
+    cameras.length > 1 ? { ...z, name: `${c.name} · ${z.name}` } : z
+  )));
+};
@@ -0,0 +1,47 @@
+// --- Canvas Recording (MediaRecorder -> WebM) ---
+
+export interface CanvasRecording {
+  mimeType: string;
+  stop: () => Promise<Blob>;
+}
+
+const CANDIDATE_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+export const isRecordingSupported = (): boolean => {
+  return typeof MediaRecorder !== 'undefined' && CANDIDATE_MIME_TYPES.some(t => MediaRecorder.isTypeSupported(t));
+};
+
+// Capture everything drawn on the canvas. Chunks are flushed every second so a
+// long recording doesn't hold one huge buffer inside the encoder.
+export const startCanvasRecording = (canvas: HTMLCanvasElement, fps = 30): CanvasRecording => {
+  const mimeType = CANDIDATE_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? 'video/webm';
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    mimeType,
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        const finish = () => {
+          stream.getTracks().forEach(t => t.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        if (recorder.state === 'inactive') {
+          finish();
+          return;
+        }
+        recorder.onstop = finish;
+        recorder.stop();
+      }),
+  };
+};
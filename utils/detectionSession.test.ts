@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { SessionFrame } from "../types";
+import { advanceReplay, INITIAL_REPLAY_CURSOR, parseDetectionSession, ReplayCursor, splitReplayPasses } from "./detectionSession";
+import { DEFAULT_TRACKER_CONFIG } from "./tracker";
+
+const frame = (videoTime: number, timestamp = videoTime * 1000): SessionFrame => ({
+  timestamp,
+  videoTime,
+  detections: [{ label: "person", box_2d: [100, 100, 300, 200] }],
+});
+
+// Replay a sequence of video positions and collect which frames came out when
+const play = (frames: SessionFrame[], positions: number[]) => {
+  const passes = splitReplayPasses(frames);
+  let cursor: ReplayCursor = INITIAL_REPLAY_CURSOR;
+  return positions.map(videoTime => {
+    const step = advanceReplay(passes, cursor, videoTime);
+    cursor = step.cursor;
+    return { times: step.frames.map(f => f.timestamp), restarted: step.restarted };
+  });
+};
+
+describe("detection sessions", () => {
+  it("parses a session and fills in missing settings", () => {
+    const session = parseDetectionSession({
+      version: 1,
+      sourceKey: "file:a.mp4:1",
+      trackerConfig: { association: "greedy" },
+      frames: [{ timestamp: 0, videoTime: 0, detections: [{ label: "car", box_2d: [10, 10, 50, 50] }, { junk: true }] }],
+    });
+
+    expect(session.trackerConfig).toEqual({ ...DEFAULT_TRACKER_CONFIG, association: "greedy" });
+    expect(session.roi).toEqual({ zones: [], lines: [] });
+    expect(session.frames[0].detections).toHaveLength(1);
+  });
+
+  it("rejects files that are not sessions", () => {
+    expect(() => parseDetectionSession({ zones: [] })).toThrow("unsupported version");
+    expect(() => parseDetectionSession({ version: 1, frames: [{ detections: [] }] })).toThrow("frame 0");
+  });
+
+  it("releases frames as the video reaches them", () => {
+    const steps = play([frame(0), frame(0.2), frame(0.4), frame(0.6)], [0.1, 0.1, 0.5, 1]);
+    expect(steps.map(s => s.times)).toEqual([[0], [], [200, 400], [600]]);
+  });
+
+  it("replays each loop of a looping recording on the matching video loop", () => {
+    // Recorded over two loops of a 1 s video
+    const frames = [frame(0.2, 200), frame(0.8, 800), frame(0.1, 1100), frame(0.9, 1900)];
+    expect(splitReplayPasses(frames)).toHaveLength(2);
+
+    const steps = play(frames, [0.5, 0.95, 0.2, 0.95, 0.3]);
+    expect(steps.map(s => s.times)).toEqual([[200], [800], [1100], [1900], [200]]);
+    expect(steps.map(s => s.restarted)).toEqual([false, false, false, false, true]);
+  });
+});
@@ -0,0 +1,94 @@
+import { DetectionSession, SessionFrame } from "../types";
+import { DEFAULT_DETECTION_SETTINGS } from "./detectionSettings";
+import { normalizeDetections } from "./detectionValidation";
+import { parseRoiDefinition } from "./roiEditor";
+import { DEFAULT_TRACKER_CONFIG } from "./tracker";
+
+// --- Detection Session Recording & Replay ---
+// Every detector result is kept with its tracker timestamp and video time, so
+// a run can be replayed through the tracker and overlays without calling the
+// detector again.
+
+export const MAX_SESSION_FRAMES = 50000; // About 3 hours at 5 detections/s
+
+export const appendSessionFrame = (frames: SessionFrame[], frame: SessionFrame) => {
+  frames.push(frame);
+  if (frames.length > MAX_SESSION_FRAMES) frames.splice(0, frames.length - MAX_SESSION_FRAMES);
+};
+
+// Older files may lack newer settings; missing fields fall back to the defaults
+export const parseDetectionSession = (data: unknown): DetectionSession => {
+  const raw = (data ?? {}) as Record<string, unknown>;
+  if (raw.version !== 1) throw new Error("Invalid session file: unsupported version");
+  if (!Array.isArray(raw.frames)) throw new Error("Invalid session file: missing frames");
+
+  const frames = raw.frames.map((f, i): SessionFrame => {
+    const frame = (f ?? {}) as Record<string, unknown>;
+    if (typeof frame.timestamp !== "number" || typeof frame.videoTime !== "number") {
+      throw new Error(`Invalid session file: frame ${i} has no timestamp`);
+    }
+    return { timestamp: frame.timestamp, videoTime: frame.videoTime, detections: normalizeDetections(frame.detections) };
+  });
+
+  return {
+    version: 1,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+    sourceKey: typeof raw.sourceKey === "string" ? raw.sourceKey : "",
+    detectorId: typeof raw.detectorId === "string" ? raw.detectorId : "",
+    analysisMode: raw.analysisMode === "offline" ? "offline" : "realtime",
+    roi: raw.roi === undefined ? { zones: [], lines: [] } : parseRoiDefinition(raw.roi),
+    trackerConfig: { ...DEFAULT_TRACKER_CONFIG, ...(raw.trackerConfig as object | undefined) },
+    detectionSettings: { ...DEFAULT_DETECTION_SETTINGS, ...(raw.detectionSettings as object | undefined) },
+    frames,
+  };
+};
+
+// --- Replay ---
+// A real-time recording of a looping video goes over the file several times.
+// Each pass is replayed when the video reaches the matching loop.
+
+export interface ReplayCursor {
+  pass: number;
+  index: number; // Next frame of the pass
+  lastVideoTime: number;
+}
+
+export const INITIAL_REPLAY_CURSOR: ReplayCursor = { pass: 0, index: 0, lastVideoTime: 0 };
+
+// A new pass starts wherever video time goes backwards
+export const splitReplayPasses = (frames: SessionFrame[]): SessionFrame[][] => {
+  const passes: SessionFrame[][] = [];
+  frames.forEach((frame, i) => {
+    if (i === 0 || frame.videoTime < frames[i - 1].videoTime) passes.push([]);
+    passes[passes.length - 1].push(frame);
+  });
+  return passes;
+};
+
+// Frames due by `videoTime`. When the video wraps, moves on to the next pass,
+// and back to the first one (with `restarted` set) after the last.
+export const advanceReplay = (
+  passes: SessionFrame[][],
+  cursor: ReplayCursor,
+  videoTime: number
+): { cursor: ReplayCursor; frames: SessionFrame[]; restarted: boolean } => {
+  if (passes.length === 0) return { cursor, frames: [], restarted: false };
+
+  let { pass, index } = cursor;
+  let restarted = false;
+  if (videoTime < cursor.lastVideoTime) {
+    pass++;
+    index = 0;
+    if (pass >= passes.length) {
+      pass = 0;
+      restarted = true;
+    }
+  }
+
+  const current = passes[pass];
+  const frames: SessionFrame[] = [];
+  while (index < current.length && current[index].videoTime <= videoTime) {
+    frames.push(current[index++]);
+  }
+  return { cursor: { pass, index, lastVideoTime: videoTime }, frames, restarted };
+};
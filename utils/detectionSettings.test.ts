@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DetectionResult } from "../types";
+import { DEFAULT_REDACTION_SETTINGS } from "./redaction";
+import { buildDetectionPrompt, DEFAULT_DETECTION_SETTINGS, filterDetections, getRequestedClasses, parseClassList, withRedactionClasses } from "./detectionSettings";
+
+const detections: DetectionResult[] = [
+  { label: "Person", box_2d: [0, 0, 100, 100], confidence: 0.9 },
+  { label: "forklift", box_2d: [0, 0, 100, 100], confidence: 0.3 },
+  { label: "car", box_2d: [0, 0, 100, 100], confidence: 0.95 },
+  { label: "person", box_2d: [0, 0, 100, 100] },
+];
+
+describe("detection settings", () => {
+  it("parses a comma-separated class list", () => {
+    expect(parseClassList(" Person, forklift,,person ")).toEqual(["person", "forklift"]);
+  });
+
+  it("filters by class and confidence", () => {
+    const settings = { ...DEFAULT_DETECTION_SETTINGS, targetClasses: ["person", "forklift"], minConfidence: 0.5 };
+    const labels = filterDetections(detections, settings).map(d => d.label);
+
+    // Detections without a confidence are kept
+    expect(labels).toEqual(["Person", "person"]);
+  });
+
+  it("keeps the class list and output format with a prompt override", () => {
+    const prompt = buildDetectionPrompt({
+      ...DEFAULT_DETECTION_SETTINGS,
+      promptOverride: "Find people wearing hi-vis vests.",
+      targetClasses: ["person wearing a hi-vis vest"],
+    });
+
+    expect(prompt.startsWith("Find people wearing hi-vis vests.")).toBe(true);
+    expect(prompt).toContain('"person wearing a hi-vis vest"');
+    expect(prompt).toContain("confidence between 0 and 1");
+  });
+
+  it("asks the detector for redacted classes on top of the target classes", () => {
+    const redaction = { ...DEFAULT_REDACTION_SETTINGS, enabled: true, labels: ["person", "license plate"] };
+    const restricted = withRedactionClasses({ ...DEFAULT_DETECTION_SETTINGS, targetClasses: ["forklift"] }, redaction);
+    expect(getRequestedClasses(restricted)).toEqual(["forklift", "person", "license plate"]);
+    expect(buildDetectionPrompt(restricted)).toContain('"forklift", "person", "license plate"');
+
+    // Every class is requested already; the redacted ones are named so they aren't missed
+    const open = withRedactionClasses(DEFAULT_DETECTION_SETTINGS, redaction);
+    expect(getRequestedClasses(open)).toEqual([]);
+    expect(buildDetectionPrompt(open)).toContain('Also report every object of these classes, using exactly these strings as labels: "person", "license plate".');
+
+    expect(withRedactionClasses(DEFAULT_DETECTION_SETTINGS, { ...redaction, enabled: false })).toBe(DEFAULT_DETECTION_SETTINGS);
+  });
+});
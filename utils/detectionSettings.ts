@@ -0,0 +1,68 @@
+import { DetectionResult, DetectionSettings, RedactionSettings, TrackedObject } from "../types";
+
+// --- Detection Settings ---
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  targetClasses: [],
+  promptOverride: "",
+  minConfidence: 0,
+  classColors: {},
+};
+
+export const DEFAULT_DETECTION_PROMPT =
+  "Detect all main objects in this image. For each object, provide the label, a confidence between 0 and 1, and the bounding box [ymin, xmin, ymax, xmax] on a 1000x1000 scale.";
+
+const normalizeClass = (name: string) => name.trim().toLowerCase();
+
+// "person, forklift" -> ["person", "forklift"], without blanks or duplicates
+export const parseClassList = (text: string): string[] => {
+  return Array.from(new Set(text.split(",").map(normalizeClass).filter(c => c !== "")));
+};
+
+// Classes to ask the detector for: the targets plus `extraClasses`. Empty
+// means every class.
+export const getRequestedClasses = (settings: DetectionSettings): string[] => {
+  if (settings.targetClasses.length === 0) return [];
+  return Array.from(new Set([...settings.targetClasses, ...(settings.extraClasses ?? [])].map(normalizeClass)));
+};
+
+// Request for the detector with the redacted classes added, so they are found
+// even when the class filter keeps them away from the tracker
+export const withRedactionClasses = (settings: DetectionSettings, redaction: RedactionSettings): DetectionSettings => {
+  return redaction.enabled ? { ...settings, extraClasses: redaction.labels } : settings;
+};
+
+const quoteClasses = (classes: string[]) => classes.map(c => `"${c}"`).join(", ");
+
+// The prompt override replaces the opening request; the class list and the
+// output format are always appended so labels stay filterable.
+export const buildDetectionPrompt = (settings: DetectionSettings): string => {
+  const parts = [settings.promptOverride.trim() || DEFAULT_DETECTION_PROMPT];
+  const requested = getRequestedClasses(settings);
+  if (requested.length > 0) {
+    parts.push(`Only report objects of these classes and use exactly these strings as labels: ${quoteClasses(requested)}.`);
+  } else if (settings.extraClasses?.length) {
+    parts.push(`Also report every object of these classes, using exactly these strings as labels: ${quoteClasses(settings.extraClasses)}.`);
+  }
+  if (settings.promptOverride.trim()) {
+    parts.push("For each object, provide the label, a confidence between 0 and 1, and the bounding box [ymin, xmin, ymax, xmax] on a 1000x1000 scale.");
+  }
+  if (settings.minConfidence > 0) {
+    parts.push(`Skip objects you are less than ${settings.minConfidence.toFixed(2)} confident about.`);
+  }
+  return parts.join(" ");
+};
+
+// Post-filter applied to every backend's output before tracking
+export const filterDetections = (detections: DetectionResult[], settings: DetectionSettings): DetectionResult[] => {
+  const targets = new Set(settings.targetClasses.map(normalizeClass));
+  return detections.filter(d => {
+    if (targets.size > 0 && !targets.has(normalizeClass(d.label))) return false;
+    if (d.confidence !== undefined && d.confidence < settings.minConfidence) return false;
+    return true;
+  });
+};
+
+export const getTrackDisplayColor = (track: Pick<TrackedObject, "label" | "color">, settings: DetectionSettings): string => {
+  return settings.classColors[normalizeClass(track.label)] ?? track.color;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDetection, normalizeDetections } from "./detectionValidation";
+
+describe("normalizeDetection", () => {
+  it("swaps inverted corners and clamps to the frame", () => {
+    const result = normalizeDetection({ label: " car ", box_2d: [600, 1200, 100, -50], confidence: 1.4 });
+
+    expect(result).toEqual({ label: "car", box_2d: [100, 0, 600, 1000], confidence: 1 });
+  });
+
+  it("rejects malformed entries", () => {
+    expect(normalizeDetection({ label: "car", box_2d: [1, 2, 3] })).toBeNull();
+    expect(normalizeDetection({ label: "", box_2d: [0, 0, 10, 10] })).toBeNull();
+    expect(normalizeDetection({ label: "car", box_2d: [0, 0, "x", 10] })).toBeNull();
+    expect(normalizeDetection({ label: "car", box_2d: [1100, 0, 1200, 10] })).toBeNull(); // Zero height after clamping
+    expect(normalizeDetection(null)).toBeNull();
+  });
+
+  it("keeps the valid entries of a list", () => {
+    const results = normalizeDetections([{ label: "person", box_2d: [0, 0, 10, 10] }, { label: "person" }]);
+    expect(results).toHaveLength(1);
+    expect(normalizeDetections({ detections: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { DetectionResult } from "../types";
+
+// --- Detection Validation ---
+// Whatever a backend returns, only well-formed boxes reach the tracker:
+// four finite numbers, corners in order, clamped to the 0-1000 frame.
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Returns null for entries that can't be repaired
+export const normalizeDetection = (raw: unknown): DetectionResult | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const { label, box_2d, confidence } = raw as Record<string, unknown>;
+
+  if (typeof label !== "string" || label.trim() === "") return null;
+  if (!Array.isArray(box_2d) || box_2d.length !== 4) return null;
+  const coords = box_2d.map(Number);
+  if (coords.some(v => !Number.isFinite(v))) return null;
+
+  // Swap inverted corners, then clip to the frame
+  const [y1, x1, y2, x2] = coords.map(v => clamp(v, 0, 1000));
+  const box: DetectionResult["box_2d"] = [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+  if (box[2] - box[0] <= 0 || box[3] - box[1] <= 0) return null;
+
+  const result: DetectionResult = { label: label.trim(), box_2d: box };
+  if (typeof confidence === "number" && Number.isFinite(confidence)) {
+    result.confidence = clamp(confidence, 0, 1);
+  }
+  return result;
+};
+
+export const normalizeDetections = (raw: unknown): DetectionResult[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeDetection).filter((d): d is DetectionResult => d !== null);
+};
@@ -0,0 +1,52 @@
+import { RoiEvent } from "../types";
+import { ZoneTransition } from "./roiAnalytics";
+import { toCsv } from "./exportUtils";
+
+// --- ROI Event Log ---
+
+export const MAX_LOGGED_EVENTS = 5000; // Oldest events are dropped beyond this
+
+export interface EventFilter {
+  label: string; // '' matches all
+  zoneId: string; // '' matches all
+}
+
+let eventSeq = 0;
+
+export const toRoiEvent = (transition: ZoneTransition, timestamp: number, videoTime?: number): RoiEvent => ({
+  ...transition,
+  id: `${timestamp.toString(36)}-${(eventSeq++).toString(36)}`,
+  timestamp,
+  videoTime,
+});
+
+export const appendEvents = (log: RoiEvent[], events: RoiEvent[]): RoiEvent[] => {
+  if (events.length === 0) return log;
+  return [...log, ...events].slice(-MAX_LOGGED_EVENTS);
+};
+
+export const filterEvents = (events: RoiEvent[], filter: EventFilter): RoiEvent[] => {
+  return events.filter(e =>
+    (!filter.label || e.label === filter.label) &&
+    (!filter.zoneId || e.zoneId === filter.zoneId)
+  );
+};
+
+export const eventsToCsv = (events: RoiEvent[]): string => {
+  return toCsv(
+    ['timestamp', 'iso_time', 'video_time', 'camera', 'type', 'track_id', 'label', 'zone_id', 'zone_name', 'x', 'y'],
+    events.map(e => [
+      e.timestamp,
+      new Date(e.timestamp).toISOString(),
+      e.videoTime?.toFixed(3),
+      e.cameraName,
+      e.type,
+      e.trackId,
+      e.label,
+      e.zoneId,
+      e.zoneName,
+      e.position.x.toFixed(1),
+      e.position.y.toFixed(1),
+    ])
+  );
+};
@@ -0,0 +1,36 @@
+// --- File Export Helpers ---
+
+// Trigger a browser download for in-memory content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+  downloadText(JSON.stringify(data, null, 2), filename, 'application/json');
+};
+
+// Quote a CSV field only when needed (RFC 4180)
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: unknown[][]): string => {
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+// Filename-safe timestamp, e.g. 2024-05-01T12-30-00
+export const fileTimestamp = (date = new Date()): string => {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-');
+};
@@ -0,0 +1,32 @@
+// --- Frame Encoding ---
+// Detector requests carry the frame as a base64 JPEG. Frames are grabbed as
+// ImageBitmaps on the main thread and encoded in the analysis worker.
+
+export const FRAME_WIDTH = 640; // Resized for API efficiency
+export const FRAME_HEIGHT = 480;
+export const JPEG_QUALITY = 0.7;
+
+// Downscaled copy of the current video frame; the browser decodes it off the main thread
+export const captureFrameBitmap = (video: HTMLVideoElement): Promise<ImageBitmap> => {
+  return createImageBitmap(video, { resizeWidth: FRAME_WIDTH, resizeHeight: FRAME_HEIGHT, resizeQuality: "medium" });
+};
+
+// btoa only takes binary strings; chunks keep String.fromCharCode within argument limits
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const CHUNK = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+// JPEG as base64 without the data: prefix, as the detectors expect
+export const encodeJpeg = async (frame: ImageBitmap, quality = JPEG_QUALITY): Promise<string> => {
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("OffscreenCanvas 2D context is not available");
+  ctx.drawImage(frame, 0, 0);
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality });
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+};
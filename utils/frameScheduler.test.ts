@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { DetectionScheduler, percentile } from "./frameScheduler";
+
+describe("DetectionScheduler", () => {
+  it("bounds in-flight requests and counts busy drops", () => {
+    const scheduler = new DetectionScheduler({ maxInFlight: 1, minIntervalMs: 100 });
+
+    expect(scheduler.shouldDispatch(0)).toBe(true);
+    const seq = scheduler.begin(0);
+    expect(scheduler.shouldDispatch(50)).toBe(false);
+    expect(scheduler.shouldDispatch(100)).toBe(false);
+    expect(scheduler.getStats(100).droppedBusy).toBe(1);
+
+    scheduler.complete(seq, 150);
+    expect(scheduler.shouldDispatch(250)).toBe(true);
+  });
+
+  it("drops results that arrive after a newer one was applied", () => {
+    const scheduler = new DetectionScheduler({ maxInFlight: 2 });
+    const first = scheduler.begin(0);
+    const second = scheduler.begin(200);
+
+    expect(scheduler.complete(second, 300)).toBe(true);
+    expect(scheduler.complete(first, 400)).toBe(false);
+    expect(scheduler.getStats(400).droppedStale).toBe(1);
+  });
+
+  it("adapts the interval to measured latency", () => {
+    const scheduler = new DetectionScheduler({ maxInFlight: 2, minIntervalMs: 100, maxIntervalMs: 1000 });
+    for (let i = 0; i < 5; i++) {
+      const seq = scheduler.begin(i * 1000);
+      scheduler.complete(seq, i * 1000 + 800);
+    }
+
+    const stats = scheduler.getStats(5000);
+    expect(stats.latencyP50).toBe(800);
+    expect(stats.intervalMs).toBe(400);
+  });
+
+  it("reports percentiles over the window", () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile([], 95)).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { PipelineStats } from "../types";
+
+// --- Detection Scheduling ---
+// Bounds the number of detector calls in flight, numbers every request so a
+// slow response can never overwrite a newer one, and stretches the interval
+// between requests to match the latency the detector is actually achieving.
+
+export interface SchedulerConfig {
+  maxInFlight: number;
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  latencyWindow: number; // Completed requests kept for percentiles
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxInFlight: 2,
+  minIntervalMs: 200, // Never more than 5 detections per second
+  maxIntervalMs: 2000,
+  latencyWindow: 50,
+};
+
+export const EMPTY_PIPELINE_STATS: PipelineStats = {
+  renderFps: 0,
+  detectionFps: 0,
+  latencyP50: 0,
+  latencyP95: 0,
+  droppedStale: 0,
+  droppedBusy: 0,
+  inFlight: 0,
+  intervalMs: DEFAULT_SCHEDULER_CONFIG.minIntervalMs,
+};
+
+const RATE_WINDOW_MS = 1000;
+
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+};
+
+// Events per second over the last second, from a list of event times
+class RateCounter {
+  private times: number[] = [];
+
+  tick(now: number) {
+    this.times.push(now);
+    this.prune(now);
+  }
+
+  rate(now: number): number {
+    this.prune(now);
+    return this.times.length * (1000 / RATE_WINDOW_MS);
+  }
+
+  private prune(now: number) {
+    while (this.times.length > 0 && now - this.times[0] > RATE_WINDOW_MS) {
+      this.times.shift();
+    }
+  }
+}
+
+export class DetectionScheduler {
+  private config: SchedulerConfig;
+  private inFlight = new Map<number, number>(); // seq -> dispatch time
+  private nextSeq = 1;
+  private lastAppliedSeq = 0;
+  private lastDispatch = -Infinity;
+  private intervalMs: number;
+  private latencies: number[] = [];
+  private droppedStale = 0;
+  private droppedBusy = 0;
+  private renderRate = new RateCounter();
+  private detectionRate = new RateCounter();
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+    this.intervalMs = this.config.minIntervalMs;
+  }
+
+  // Call once per rendered frame; returns true when a new request should go out.
+  // A due frame that can't be sent because the pipeline is full counts as dropped.
+  shouldDispatch(now: number): boolean {
+    if (now - this.lastDispatch < this.intervalMs) return false;
+    if (this.inFlight.size >= this.config.maxInFlight) {
+      this.droppedBusy++;
+      this.lastDispatch = now;
+      return false;
+    }
+    return true;
+  }
+
+  begin(now: number): number {
+    const seq = this.nextSeq++;
+    this.inFlight.set(seq, now);
+    this.lastDispatch = now;
+    return seq;
+  }
+
+  // Returns false when a newer result has already been applied
+  complete(seq: number, now: number): boolean {
+    const started = this.inFlight.get(seq);
+    this.inFlight.delete(seq);
+    if (started !== undefined) {
+      this.latencies.push(now - started);
+      if (this.latencies.length > this.config.latencyWindow) this.latencies.shift();
+      this.adaptInterval();
+    }
+
+    if (seq < this.lastAppliedSeq) {
+      this.droppedStale++;
+      return false;
+    }
+    this.lastAppliedSeq = seq;
+    this.detectionRate.tick(now);
+    return true;
+  }
+
+  // Forget a request that errored so it doesn't hold an in-flight slot
+  fail(seq: number) {
+    this.inFlight.delete(seq);
+  }
+
+  recordRender(now: number) {
+    this.renderRate.tick(now);
+  }
+
+  getStats(now: number): PipelineStats {
+    return {
+      renderFps: this.renderRate.rate(now),
+      detectionFps: this.detectionRate.rate(now),
+      latencyP50: percentile(this.latencies, 50),
+      latencyP95: percentile(this.latencies, 95),
+      droppedStale: this.droppedStale,
+      droppedBusy: this.droppedBusy,
+      inFlight: this.inFlight.size,
+      intervalMs: this.intervalMs,
+    };
+  }
+
+  // With N requests in flight, one every latency/N ms keeps the pipe full
+  private adaptInterval() {
+    const target = percentile(this.latencies, 50) / this.config.maxInFlight;
+    this.intervalMs = Math.min(this.config.maxIntervalMs, Math.max(this.config.minIntervalMs, target));
+  }
+}
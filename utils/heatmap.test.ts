@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { addTracksToHeatmap, createHeatmap, heatColor, heatmapToJson } from "./heatmap";
+import { Tracker } from "./tracker";
+
+describe("heatmap", () => {
+  it("accumulates visible track centers into grid cells", () => {
+    const tracker = new Tracker({ dropout: { mode: "frames", frames: 5 } });
+    const heatmap = createHeatmap(10);
+
+    // A person standing still in the top-left cell for three updates
+    for (let i = 0; i < 3; i++) {
+      addTracksToHeatmap(heatmap, tracker.update([{ label: "person", box_2d: [20, 20, 80, 80] }], i * 200));
+    }
+    // Then missing: the coasting track adds nothing
+    addTracksToHeatmap(heatmap, tracker.update([], 600));
+
+    const json = heatmapToJson(heatmap);
+    expect(json.cells[0]).toBe(3);
+    expect(json.samples).toBe(3);
+    expect(json.max).toBe(3);
+    expect(json.cells.reduce((a, b) => a + b, 0)).toBe(3);
+  });
+
+  it("maps intensity onto a blue-to-red ramp", () => {
+    expect(heatColor(0)).toEqual([0, 0, 255]);
+    expect(heatColor(0.5)).toEqual([0, 255, 0]);
+    expect(heatColor(1)).toEqual([255, 0, 0]);
+  });
+});
@@ -0,0 +1,90 @@
+import { TrackedObject } from "../types";
+import { getBoxCenter } from "./mathUtils";
+
+// --- Occupancy Heatmap ---
+// A square grid over the 0-1000 frame. Every tracker update adds one sample
+// per visible track at its box center, so cells grow with both traffic and
+// time spent there.
+
+export interface Heatmap {
+  size: number; // Cells per side
+  cells: Float32Array; // Row-major, row = y
+  max: number;
+  samples: number;
+  version: number; // Bumped on every change, for render caching
+}
+
+export const DEFAULT_HEATMAP_SIZE = 64;
+
+export const createHeatmap = (size = DEFAULT_HEATMAP_SIZE): Heatmap => ({
+  size,
+  cells: new Float32Array(size * size),
+  max: 0,
+  samples: 0,
+  version: 0,
+});
+
+const toCell = (v: number, size: number) => Math.min(size - 1, Math.max(0, Math.floor((v / 1000) * size)));
+
+// Mutates the grid in place; it lives in a ref and is updated several times a second
+export const addTracksToHeatmap = (heatmap: Heatmap, tracks: TrackedObject[]) => {
+  let changed = false;
+  tracks.forEach(track => {
+    // Coasting tracks are predictions, not observations
+    if (track.misses > 0) return;
+    const center = getBoxCenter(track.box);
+    const index = toCell(center.y, heatmap.size) * heatmap.size + toCell(center.x, heatmap.size);
+    heatmap.cells[index] += 1;
+    heatmap.max = Math.max(heatmap.max, heatmap.cells[index]);
+    heatmap.samples++;
+    changed = true;
+  });
+  if (changed) heatmap.version++;
+};
+
+// Blue -> cyan -> green -> yellow -> red for t in [0, 1]
+const COLOR_STOPS: [number, number, number][] = [
+  [0, 0, 255],
+  [0, 255, 255],
+  [0, 255, 0],
+  [255, 255, 0],
+  [255, 0, 0],
+];
+
+export const heatColor = (t: number): [number, number, number] => {
+  const scaled = Math.min(1, Math.max(0, t)) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [a, b] = [COLOR_STOPS[i], COLOR_STOPS[i + 1]];
+  return [0, 1, 2].map(c => Math.round(a[c] + (b[c] - a[c]) * f)) as [number, number, number];
+};
+
+// One pixel per cell. Log scaling keeps quieter paths visible next to hot spots;
+// empty cells stay transparent.
+export const renderHeatmapImage = (heatmap: Heatmap, maxAlpha = 180): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = heatmap.size;
+  canvas.height = heatmap.size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || heatmap.max === 0) return canvas;
+
+  const image = ctx.createImageData(heatmap.size, heatmap.size);
+  const logMax = Math.log1p(heatmap.max);
+  heatmap.cells.forEach((value, i) => {
+    if (value === 0) return;
+    const t = Math.log1p(value) / logMax;
+    const [r, g, b] = heatColor(t);
+    image.data.set([r, g, b, Math.round(maxAlpha * (0.3 + 0.7 * t))], i * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Raw grid for offline analysis
+export const heatmapToJson = (heatmap: Heatmap) => ({
+  size: heatmap.size,
+  coordinateSpace: "0-1000, row-major, row = y",
+  samples: heatmap.samples,
+  max: heatmap.max,
+  cells: Array.from(heatmap.cells),
+});
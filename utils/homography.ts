@@ -0,0 +1,79 @@
+import { Point } from "../types";
+
+// --- Planar Homography ---
+// 3x3 projective transform, row-major and defined up to scale. Used to map
+// image points (0-1000) on the ground plane to world coordinates in meters.
+
+export type Homography = number[];
+
+// Solve A x = b by Gaussian elimination with partial pivoting; null if singular
+const solveLinear = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+};
+
+// Direct linear transform from exactly four correspondences. Returns null when
+// three of the points are collinear and no unique transform exists.
+// Image points are first centered on their centroid and scaled to unit size:
+// this keeps the system well conditioned, and fixing h[8] = 1 is only valid
+// if the origin doesn't sit on the horizon, which the centroid never does.
+export const computeHomography = (src: Point[], dst: Point[]): Homography | null => {
+  if (src.length !== 4 || dst.length !== 4) return null;
+
+  const cx = src.reduce((sum, p) => sum + p.x, 0) / 4;
+  const cy = src.reduce((sum, p) => sum + p.y, 0) / 4;
+  const scale = src.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / 4;
+  if (scale === 0) return null;
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const x = (src[i].x - cx) / scale;
+    const y = (src[i].y - cy) / scale;
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinear(a, b);
+  if (!h || h.some(v => !Number.isFinite(v))) return null;
+
+  // Fold the normalization back in: H = H' * T, with T(p) = (p - c) / scale
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = h;
+  const t = (u: number, v: number, w: number) => [u / scale, v / scale, w - (u * cx + v * cy) / scale];
+  return [...t(h0, h1, h2), ...t(h3, h4, h5), ...t(h6, h7, 1)];
+};
+
+// Null for points on the horizon line, which map to infinity
+export const applyHomography = (h: Homography, p: Point): Point | null => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  if (Math.abs(w) < 1e-9) return null;
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+};
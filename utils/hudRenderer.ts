@@ -0,0 +1,46 @@
+import { TripwireStats, ZoneStats } from "../types";
+
+// --- Stats HUD (burned into the canvas so recordings stand alone) ---
+
+export interface HudData {
+  objectCount: number;
+  zones: ZoneStats[];
+  lines: TripwireStats[];
+  videoTime?: number; // Seconds, for uploaded files
+}
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60).toString().padStart(2, '0');
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return `${m}:${s}`;
+};
+
+export const drawHud = (ctx: CanvasRenderingContext2D, width: number, data: HudData) => {
+  const lineHeight = 18;
+  const rows: { text: string; color: string }[] = [
+    { text: new Date().toLocaleString(), color: '#ffffff' },
+  ];
+  if (data.videoTime !== undefined) {
+    rows.push({ text: `Video ${formatClock(data.videoTime)}`, color: '#ffffff' });
+  }
+  rows.push({ text: `Objects: ${data.objectCount}`, color: '#00ff9d' });
+  data.zones.forEach(z => {
+    rows.push({ text: `${z.name}: in ${z.occupancy} | +${z.entered} -${z.exited}`, color: z.color });
+  });
+  data.lines.forEach(l => {
+    rows.push({ text: `${l.name}: A→B ${l.countAB} | B→A ${l.countBA}`, color: l.color });
+  });
+
+  ctx.font = 'bold 14px monospace';
+  const boxWidth = Math.max(...rows.map(r => ctx.measureText(r.text).width)) + 20;
+  const boxHeight = rows.length * lineHeight + 12;
+  const x = width - boxWidth - 10;
+  const y = 10;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  rows.forEach((row, i) => {
+    ctx.fillStyle = row.color;
+    ctx.fillText(row.text, x + 10, y + 20 + i * lineHeight);
+  });
+};
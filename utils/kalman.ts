@@ -0,0 +1,110 @@
+import { BoundingBox, MotionEstimate, MotionState } from "../types";
+
+// --- Constant-Velocity Kalman Filter ---
+// Each axis is filtered independently with state [position, velocity].
+// Box width/height are not part of the motion model and are only smoothed.
+
+const PROCESS_NOISE = 40000; // Acceleration variance, (units/s^2)^2
+const MEASUREMENT_NOISE = 100; // Detector jitter variance, units^2
+const INITIAL_VELOCITY_VARIANCE = 40000; // (units/s)^2, roughly "crosses the frame in 5s"
+const SIZE_GAIN = 0.6; // Weight of the new measurement when smoothing box size
+
+type AxisCovariance = [number, number, number];
+
+const predictAxis = (
+  pos: number,
+  vel: number,
+  cov: AxisCovariance,
+  dt: number
+): { pos: number; cov: AxisCovariance } => {
+  const [p00, p01, p11] = cov;
+  const q = PROCESS_NOISE;
+  // P' = F P F^T + Q with F = [[1, dt], [0, 1]]
+  return {
+    pos: pos + vel * dt,
+    cov: [
+      p00 + 2 * dt * p01 + dt * dt * p11 + (q * dt ** 4) / 4,
+      p01 + dt * p11 + (q * dt ** 3) / 2,
+      p11 + q * dt * dt,
+    ],
+  };
+};
+
+const correctAxis = (
+  pos: number,
+  vel: number,
+  cov: AxisCovariance,
+  measurement: number
+): { pos: number; vel: number; cov: AxisCovariance } => {
+  const [p00, p01, p11] = cov;
+  const s = p00 + MEASUREMENT_NOISE;
+  const k0 = p00 / s;
+  const k1 = p01 / s;
+  const innovation = measurement - pos;
+  return {
+    pos: pos + k0 * innovation,
+    vel: vel + k1 * innovation,
+    cov: [(1 - k0) * p00, (1 - k0) * p01, p11 - k1 * p01],
+  };
+};
+
+export const createMotionState = (box: BoundingBox, timestamp: number): MotionState => {
+  return {
+    x: (box.xmin + box.xmax) / 2,
+    y: (box.ymin + box.ymax) / 2,
+    vx: 0,
+    vy: 0,
+    w: box.xmax - box.xmin,
+    h: box.ymax - box.ymin,
+    covX: [MEASUREMENT_NOISE, 0, INITIAL_VELOCITY_VARIANCE],
+    covY: [MEASUREMENT_NOISE, 0, INITIAL_VELOCITY_VARIANCE],
+    timestamp,
+  };
+};
+
+// Project the state forward to `timestamp` (ms). Never predicts backwards.
+export const predictMotion = (state: MotionState, timestamp: number): MotionState => {
+  const dt = Math.max(0, timestamp - state.timestamp) / 1000;
+  if (dt === 0) return state;
+
+  const px = predictAxis(state.x, state.vx, state.covX, dt);
+  const py = predictAxis(state.y, state.vy, state.covY, dt);
+  return {
+    ...state,
+    x: px.pos,
+    y: py.pos,
+    covX: px.cov,
+    covY: py.cov,
+    timestamp,
+  };
+};
+
+// Fuse a detected box into an already-predicted state
+export const correctMotion = (state: MotionState, box: BoundingBox): MotionState => {
+  const cx = correctAxis(state.x, state.vx, state.covX, (box.xmin + box.xmax) / 2);
+  const cy = correctAxis(state.y, state.vy, state.covY, (box.ymin + box.ymax) / 2);
+  return {
+    ...state,
+    x: cx.pos,
+    y: cy.pos,
+    vx: cx.vel,
+    vy: cy.vel,
+    covX: cx.cov,
+    covY: cy.cov,
+    w: state.w + SIZE_GAIN * (box.xmax - box.xmin - state.w),
+    h: state.h + SIZE_GAIN * (box.ymax - box.ymin - state.h),
+  };
+};
+
+// Same position as `predictMotion`, without growing the uncertainty
+export const extrapolateMotion = (state: MotionEstimate, timestamp: number): MotionEstimate => {
+  const dt = Math.max(0, timestamp - state.timestamp) / 1000;
+  return { ...state, x: state.x + state.vx * dt, y: state.y + state.vy * dt, timestamp: Math.max(timestamp, state.timestamp) };
+};
+
+export const motionToBox = (state: MotionEstimate): BoundingBox => ({
+  ymin: state.y - state.h / 2,
+  xmin: state.x - state.w / 2,
+  ymax: state.y + state.h / 2,
+  xmax: state.x + state.w / 2,
+});
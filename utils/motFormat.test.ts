@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatMot, groupMotByFrame, MotRecord, parseMot, videoTimeToMotFrame } from "./motFormat";
+
+const records: MotRecord[] = [
+  { frame: 2, id: 1, box: { xmin: 100, ymin: 200, xmax: 300, ymax: 600 }, confidence: 1 },
+  { frame: 1, id: 2, box: { xmin: 500, ymin: 500, xmax: 750, ymax: 1000 }, confidence: 0.5 },
+];
+
+describe("MOTChallenge format", () => {
+  it("writes sorted lines in source pixels", () => {
+    const text = formatMot(records, 1920, 1080);
+
+    expect(text.split("\n")).toEqual([
+      "1,2,960.00,540.00,480.00,540.00,0.500,-1,-1,-1",
+      "2,1,192.00,216.00,384.00,432.00,1.000,-1,-1,-1",
+    ]);
+  });
+
+  it("round-trips through parseMot", () => {
+    const parsed = parseMot(formatMot(records, 1920, 1080), 1920, 1080);
+    const byFrame = groupMotByFrame(parsed);
+
+    expect(parsed).toHaveLength(2);
+    expect(byFrame.get(2)![0].id).toBe(1);
+    expect(byFrame.get(2)![0].box.xmin).toBeCloseTo(100);
+    expect(byFrame.get(2)![0].box.ymax).toBeCloseTo(600);
+  });
+
+  it("reads ground-truth lines and skips malformed ones", () => {
+    const text = "1,1,10,20,30,40,1,1,0.8\n# comment\n2,1,abc,20,30,40\n\n3,1,10,20,30,40";
+    const parsed = parseMot(text, 100, 100);
+
+    expect(parsed.map(r => r.frame)).toEqual([1, 3]);
+    expect(parsed[1].confidence).toBe(1);
+  });
+
+  it("maps video time to 1-based frame numbers", () => {
+    expect(videoTimeToMotFrame(0)).toBe(1);
+    expect(videoTimeToMotFrame(1, 25)).toBe(26);
+  });
+});
@@ -0,0 +1,69 @@
+import { BoundingBox } from "../types";
+
+// --- MOTChallenge Text Format ---
+// One line per box: frame,id,bb_left,bb_top,bb_width,bb_height,conf,x,y,z
+// Frames are 1-based and boxes are in source pixels. Ground-truth files use
+// the same first six columns, so they can be read back with `parseMot`.
+
+export interface MotRecord {
+  frame: number;
+  id: number;
+  box: BoundingBox; // 0-1000 scale, like everything else in the app
+  confidence: number;
+}
+
+// Nominal frame rate used to turn video time into MOT frame numbers.
+// Browsers don't expose a file's real frame rate.
+export const MOT_FRAME_RATE = 30;
+
+export const MAX_MOT_RECORDS = 200000;
+
+export const videoTimeToMotFrame = (seconds: number, frameRate = MOT_FRAME_RATE): number => {
+  return Math.round(seconds * frameRate) + 1;
+};
+
+export const formatMot = (records: MotRecord[], width: number, height: number): string => {
+  const sorted = [...records].sort((a, b) => a.frame - b.frame || a.id - b.id);
+  return sorted
+    .map(r => {
+      const left = (r.box.xmin / 1000) * width;
+      const top = (r.box.ymin / 1000) * height;
+      const w = ((r.box.xmax - r.box.xmin) / 1000) * width;
+      const h = ((r.box.ymax - r.box.ymin) / 1000) * height;
+      return [r.frame, r.id, left.toFixed(2), top.toFixed(2), w.toFixed(2), h.toFixed(2), r.confidence.toFixed(3), -1, -1, -1].join(',');
+    })
+    .join('\n');
+};
+
+// Lines that don't have at least six numeric columns are skipped
+export const parseMot = (text: string, width: number, height: number): MotRecord[] => {
+  const records: MotRecord[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const cols = line.trim().split(/[,\s]+/).map(Number);
+    if (cols.length < 6 || cols.slice(0, 6).some(v => !Number.isFinite(v))) continue;
+
+    const [frame, id, left, top, w, h] = cols;
+    records.push({
+      frame,
+      id,
+      box: {
+        xmin: (left / width) * 1000,
+        ymin: (top / height) * 1000,
+        xmax: ((left + w) / width) * 1000,
+        ymax: ((top + h) / height) * 1000,
+      },
+      confidence: Number.isFinite(cols[6]) ? cols[6] : 1,
+    });
+  }
+  return records;
+};
+
+export const groupMotByFrame = (records: MotRecord[]): Map<number, MotRecord[]> => {
+  const frames = new Map<number, MotRecord[]>();
+  for (const r of records) {
+    const list = frames.get(r.frame);
+    if (list) list.push(r);
+    else frames.set(r.frame, [r]);
+  }
+  return frames;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { MotRecord } from "./motFormat";
+import { evaluateMot } from "./motMetrics";
+
+// A 40x80 box whose left edge is at `x`
+const rec = (frame: number, id: number, x: number, y = 100): MotRecord => ({
+  frame,
+  id,
+  box: { xmin: x, ymin: y, xmax: x + 40, ymax: y + 80 },
+  confidence: 1,
+});
+
+// Ground-truth object 1 walking right, one frame per entry
+const walk = (id: number, frames: number, y = 100) => Array.from({ length: frames }, (_, i) => rec(i + 1, id, 100 + i * 10, y));
+
+describe("MOT metrics", () => {
+  it("scores a perfect tracker", () => {
+    const gt = [...walk(1, 10), ...walk(2, 10, 500)];
+    const hyp = gt.map(r => ({ ...r, id: r.id + 100 }));
+    const m = evaluateMot(gt, hyp);
+
+    expect(m).toMatchObject({ matches: 20, misses: 0, falsePositives: 0, idSwitches: 0, fragmentations: 0 });
+    expect(m.mota).toBe(1);
+    expect(m.motp).toBeCloseTo(1);
+    expect(m.idf1).toBe(1);
+  });
+
+  it("counts an ID switch and charges IDF1 for the second identity", () => {
+    const gt = walk(1, 10);
+    const hyp = gt.map(r => ({ ...r, id: r.frame <= 6 ? 7 : 8 }));
+    const m = evaluateMot(gt, hyp);
+
+    expect(m.idSwitches).toBe(1);
+    expect(m.mota).toBeCloseTo(0.9);
+    // Best mapping keeps 1 -> 7 for six of ten frames
+    expect(m.idf1).toBeCloseTo(0.6);
+  });
+
+  it("counts misses, false positives and a fragmented track", () => {
+    const gt = walk(1, 10);
+    const hyp = [
+      ...gt.filter(r => r.frame < 4 || r.frame > 6).map(r => ({ ...r, id: 5 })),
+      rec(2, 9, 800), // Nothing there
+    ];
+    const m = evaluateMot(gt, hyp);
+
+    expect(m).toMatchObject({ matches: 7, misses: 3, falsePositives: 1, idSwitches: 0, fragmentations: 1 });
+    expect(m.mota).toBeCloseTo(0.6);
+    expect(m.precision).toBeCloseTo(7 / 8);
+    expect(m.recall).toBeCloseTo(0.7);
+  });
+
+  it("does not match boxes below the IoU threshold", () => {
+    const gt = [rec(1, 1, 100)];
+    const hyp = [rec(1, 2, 130)]; // IoU 10/70
+    expect(evaluateMot(gt, hyp).matches).toBe(0);
+    expect(evaluateMot(gt, hyp, 0.1).matches).toBe(1);
+  });
+
+  it("keeps an existing correspondence over a slightly better newcomer", () => {
+    const gt = walk(1, 3);
+    const hyp = [
+      rec(1, 5, 100), rec(2, 5, 115), rec(3, 5, 125),
+      rec(2, 6, 112), rec(3, 6, 120), // Closer to the truth, but 5 still overlaps
+    ];
+    expect(evaluateMot(gt, hyp).idSwitches).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import { solveHungarian } from "./assignment";
+import { getIoU } from "./mathUtils";
+import { groupMotByFrame, MotRecord } from "./motFormat";
+
+// --- Tracking Accuracy Metrics ---
+// CLEAR MOT (MOTA, MOTP, ID switches, fragmentation) and IDF1 between
+// ground-truth and tracker boxes in MOT records. A ground-truth box and a
+// tracker box can only match when their IoU reaches the threshold.
+
+export const DEFAULT_MATCH_IOU = 0.5;
+
+export interface MotMetrics {
+  frames: number;
+  groundTruth: number; // Ground-truth boxes, summed over frames
+  hypotheses: number; // Tracker boxes, summed over frames
+  matches: number;
+  misses: number; // False negatives
+  falsePositives: number;
+  idSwitches: number;
+  fragmentations: number; // Times a tracked ground-truth object lost and regained coverage
+  mota: number; // 1 - (misses + false positives + ID switches) / ground truth; NaN without ground truth
+  motp: number; // Mean IoU of matched pairs (higher is better); NaN without matches
+  idf1: number; // Share of boxes carrying the right identity under the best global ID mapping
+  precision: number;
+  recall: number;
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? num / den : NaN);
+
+// Frames where a ground-truth id and a tracker id overlap enough to match, keyed "gt:hyp"
+const countOverlaps = (pairs: Map<string, number>, gts: MotRecord[], hyps: MotRecord[], iouThreshold: number) => {
+  for (const g of gts) {
+    for (const h of hyps) {
+      if (getIoU(g.box, h.box) >= iouThreshold) {
+        const key = `${g.id}:${h.id}`;
+        pairs.set(key, (pairs.get(key) ?? 0) + 1);
+      }
+    }
+  }
+};
+
+// Best one-to-one mapping of ground-truth ids to tracker ids, maximizing shared frames
+const getIdTruePositives = (pairs: Map<string, number>): number => {
+  if (pairs.size === 0) return 0;
+  const gtIds = Array.from(new Set(Array.from(pairs.keys(), k => k.split(':')[0])));
+  const hypIds = Array.from(new Set(Array.from(pairs.keys(), k => k.split(':')[1])));
+  const maxCount = Math.max(...pairs.values());
+  const cost = gtIds.map(g => hypIds.map(h => {
+    const count = pairs.get(`${g}:${h}`);
+    return count === undefined ? Infinity : maxCount - count;
+  }));
+  return solveHungarian(cost).reduce((sum, j, i) => (j === -1 ? sum : sum + (pairs.get(`${gtIds[i]}:${hypIds[j]}`) ?? 0)), 0);
+};
+
+export const evaluateMot = (
+  groundTruth: MotRecord[],
+  hypotheses: MotRecord[],
+  iouThreshold = DEFAULT_MATCH_IOU
+): MotMetrics => {
+  const gtFrames = groupMotByFrame(groundTruth);
+  const hypFrames = groupMotByFrame(hypotheses);
+  const frames = Array.from(new Set([...gtFrames.keys(), ...hypFrames.keys()])).sort((a, b) => a - b);
+
+  const lastMatch = new Map<number, number>(); // Ground-truth id -> tracker id it was last matched to
+  const interrupted = new Set<number>(); // Tracked ground-truth ids currently without a match
+  const overlaps = new Map<string, number>();
+  let matches = 0;
+  let iouSum = 0;
+  let idSwitches = 0;
+  let fragmentations = 0;
+
+  for (const frame of frames) {
+    const gts = gtFrames.get(frame) ?? [];
+    const hyps = hypFrames.get(frame) ?? [];
+    countOverlaps(overlaps, gts, hyps, iouThreshold);
+
+    // Keep last frame's correspondences while they still overlap, then solve the rest
+    const pairs = new Map<number, number>(); // gt index -> hyp index
+    const takenHyps = new Set<number>();
+    gts.forEach((g, i) => {
+      const j = hyps.findIndex(h => h.id === lastMatch.get(g.id));
+      if (j !== -1 && !takenHyps.has(j) && getIoU(g.box, hyps[j].box) >= iouThreshold) {
+        pairs.set(i, j);
+        takenHyps.add(j);
+      }
+    });
+    const openGts = gts.map((_, i) => i).filter(i => !pairs.has(i));
+    const openHyps = hyps.map((_, j) => j).filter(j => !takenHyps.has(j));
+    const cost = openGts.map(i => openHyps.map(j => {
+      const iou = getIoU(gts[i].box, hyps[j].box);
+      return iou >= iouThreshold ? 1 - iou : Infinity;
+    }));
+    solveHungarian(cost).forEach((k, row) => {
+      if (k !== -1) pairs.set(openGts[row], openHyps[k]);
+    });
+
+    gts.forEach((g, i) => {
+      const j = pairs.get(i);
+      if (j === undefined) {
+        if (lastMatch.has(g.id)) interrupted.add(g.id);
+        return;
+      }
+      const h = hyps[j];
+      const previous = lastMatch.get(g.id);
+      if (previous !== undefined && previous !== h.id) idSwitches++;
+      if (interrupted.delete(g.id)) fragmentations++;
+      lastMatch.set(g.id, h.id);
+      matches++;
+      iouSum += getIoU(g.box, h.box);
+    });
+  }
+
+  const misses = groundTruth.length - matches;
+  const falsePositives = hypotheses.length - matches;
+  const idTruePositives = getIdTruePositives(overlaps);
+
+  return {
+    frames: frames.length,
+    groundTruth: groundTruth.length,
+    hypotheses: hypotheses.length,
+    matches,
+    misses,
+    falsePositives,
+    idSwitches,
+    fragmentations,
+    mota: ratio(groundTruth.length - misses - falsePositives - idSwitches, groundTruth.length),
+    motp: ratio(iouSum, matches),
+    idf1: ratio(2 * idTruePositives, groundTruth.length + hypotheses.length),
+    precision: ratio(matches, hypotheses.length),
+    recall: ratio(matches, groundTruth.length),
+  };
+};
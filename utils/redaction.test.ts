@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { RedactionSettings, TrackedObject } from "../types";
+import { createMotionState } from "./kalman";
+import { DEFAULT_REDACTION_SETTINGS, getRedactionBoxes, MAX_PREDICTION_MS, toPixelRects } from "./redaction";
+
+const settings: RedactionSettings = { ...DEFAULT_REDACTION_SETTINGS, enabled: true, labels: ["person"], padding: 0 };
+
+const track = (label: string, vx = 0): TrackedObject => {
+  const box = { xmin: 100, ymin: 100, xmax: 200, ymax: 300 };
+  return {
+    id: 1,
+    label,
+    box,
+    trajectory: [],
+    color: "#fff",
+    lastSeen: 0,
+    misses: 0,
+    motion: { ...createMotionState(box, 0), vx },
+  };
+};
+
+describe("redaction", () => {
+  it("only redacts chosen labels, and nothing while disabled", () => {
+    const tracks = [track("Person"), track("car")];
+    expect(getRedactionBoxes(tracks, settings)).toEqual([{ xmin: 100, ymin: 100, xmax: 200, ymax: 300 }]);
+    expect(getRedactionBoxes(tracks, { ...settings, enabled: false })).toEqual([]);
+  });
+
+  it("pads boxes on every side", () => {
+    const [box] = getRedactionBoxes([track("person")], { ...settings, padding: 0.1 });
+    expect(box).toEqual({ xmin: 90, ymin: 80, xmax: 210, ymax: 320 });
+  });
+
+  it("covers the path to the predicted position, up to the prediction limit", () => {
+    // 100 units/s to the right
+    const [near] = getRedactionBoxes([track("person", 100)], settings, 500);
+    expect(near.xmin).toBeCloseTo(100);
+    expect(near.xmax).toBeCloseTo(250);
+
+    const [far] = getRedactionBoxes([track("person", 100)], settings, 60_000);
+    expect(far.xmax).toBeCloseTo(200 + MAX_PREDICTION_MS / 10);
+  });
+
+  it("converts to whole canvas pixels, growing outward and clamping", () => {
+    const rects = toPixelRects([{ xmin: -50, ymin: 100.4, xmax: 250.2, ymax: 300 }, { xmin: 1200, ymin: 0, xmax: 1300, ymax: 10 }], 640, 480);
+    expect(rects).toEqual([{ x: 0, y: 48, w: 161, h: 96 }]);
+  });
+});
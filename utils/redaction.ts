@@ -0,0 +1,153 @@
+import { BoundingBox, MotionEstimate, RedactionSettings } from "../types";
+import { extrapolateMotion, motionToBox } from "./kalman";
+
+// --- Privacy Redaction ---
+// Applied to the visible canvas before any overlay is drawn, so everything
+// taken from the canvas (recordings, snapshots) is redacted the same way.
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  labels: ["person", "license plate"],
+  style: "pixelate",
+  blockSize: 16,
+  padding: 0.15,
+  frameMode: "full",
+};
+
+// Width the raw frame is reduced to in 'downscaled' mode
+export const DOWNSCALED_FRAME_WIDTH = 64;
+
+// Live boxes trail the video by the detection latency; predictions further
+// ahead than this are not trusted
+export const MAX_PREDICTION_MS = 1000;
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const union = (a: BoundingBox, b: BoundingBox): BoundingBox => ({
+  xmin: Math.min(a.xmin, b.xmin),
+  ymin: Math.min(a.ymin, b.ymin),
+  xmax: Math.max(a.xmax, b.xmax),
+  ymax: Math.max(a.ymax, b.ymax),
+});
+
+// Regions (0-1000) to obscure. With `predictTo` (tracker clock, ms) each box
+// with a motion estimate also covers where it is expected to be by then.
+export const getRedactionBoxes = (
+  tracks: { label: string; box: BoundingBox; motion?: MotionEstimate }[],
+  settings: RedactionSettings,
+  predictTo?: number
+): BoundingBox[] => {
+  if (!settings.enabled || settings.labels.length === 0) return [];
+  const labels = new Set(settings.labels);
+
+  return tracks
+    .filter(t => labels.has(t.label.trim().toLowerCase()))
+    .map(t => {
+      let box = t.box;
+      if (t.motion && predictTo !== undefined) {
+        const target = Math.min(predictTo, t.motion.timestamp + MAX_PREDICTION_MS);
+        box = union(box, motionToBox(extrapolateMotion(t.motion, target)));
+      }
+      const padX = (box.xmax - box.xmin) * settings.padding;
+      const padY = (box.ymax - box.ymin) * settings.padding;
+      return { xmin: box.xmin - padX, ymin: box.ymin - padY, xmax: box.xmax + padX, ymax: box.ymax + padY };
+    });
+};
+
+// Whole pixels, clamped to the canvas; empty regions are dropped
+export const toPixelRects = (boxes: BoundingBox[], width: number, height: number): PixelRect[] => {
+  return boxes
+    .map(b => {
+      const x = Math.max(0, Math.floor((b.xmin / 1000) * width));
+      const y = Math.max(0, Math.floor((b.ymin / 1000) * height));
+      const x2 = Math.min(width, Math.ceil((b.xmax / 1000) * width));
+      const y2 = Math.min(height, Math.ceil((b.ymax / 1000) * height));
+      return { x, y, w: x2 - x, h: y2 - y };
+    })
+    .filter(r => r.w > 0 && r.h > 0);
+};
+
+// --- Canvas Drawing ---
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+const getScratch = (w: number, h: number) => {
+  scratchCanvas ??= document.createElement("canvas");
+  scratchCanvas.width = w;
+  scratchCanvas.height = h;
+  return scratchCanvas;
+};
+
+// Shrink a region and stretch it back: hard edges pixelate, smoothing blurs
+const coarsen = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  src: PixelRect,
+  dest: PixelRect,
+  blockSize: number,
+  smooth: boolean
+) => {
+  const scratch = getScratch(Math.max(1, Math.round(src.w / blockSize)), Math.max(1, Math.round(src.h / blockSize)));
+  const sctx = scratch.getContext("2d");
+  if (!sctx) return;
+  sctx.imageSmoothingEnabled = true;
+  sctx.drawImage(source, src.x, src.y, src.w, src.h, 0, 0, scratch.width, scratch.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = smooth;
+  ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, dest.x, dest.y, dest.w, dest.h);
+  ctx.restore();
+};
+
+// Draw the raw frame as the frame mode allows
+export const drawSourceFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  width: number,
+  height: number,
+  settings: RedactionSettings
+) => {
+  const mode = settings.enabled ? settings.frameMode : "full";
+  if (mode === "hidden") {
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width, height);
+  } else if (mode === "downscaled") {
+    const full = { x: 0, y: 0, w: video.videoWidth, h: video.videoHeight };
+    coarsen(ctx, video, full, { x: 0, y: 0, w: width, h: height }, Math.max(1, video.videoWidth / DOWNSCALED_FRAME_WIDTH), false);
+  } else {
+    ctx.drawImage(video, 0, 0, width, height);
+  }
+};
+
+// Obscure the regions in place. Blur is approximated by a smoothed
+// down/up-scale, which every browser supports (unlike `ctx.filter`).
+export const redactRegions = (ctx: CanvasRenderingContext2D, rects: PixelRect[], settings: RedactionSettings) => {
+  const blockSize = settings.style === "blur" ? settings.blockSize * 2 : settings.blockSize;
+  rects.forEach(rect => coarsen(ctx, ctx.canvas, rect, rect, blockSize, settings.style === "blur"));
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = "vision-tracker:redaction";
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_REDACTION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_REDACTION_SETTINGS;
+  } catch (e) {
+    console.warn("Ignoring stored redaction settings:", e);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save redaction settings:", e);
+  }
+};
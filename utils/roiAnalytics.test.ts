@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { RoiZone, TrackedObject } from "../types";
+import { createMotionState } from "./kalman";
+import { addDwells, buildZoneStats, updateZoneAnalytics } from "./roiAnalytics";
+
+const zone: RoiZone = {
+  id: "queue",
+  name: "Queue",
+  color: "#ffcc00",
+  points: [
+    { x: 400, y: 400 },
+    { x: 600, y: 400 },
+    { x: 600, y: 600 },
+    { x: 400, y: 600 },
+  ],
+};
+
+const trackAt = (id: number, cx: number, timestamp: number): TrackedObject => {
+  const box = { ymin: 480, xmin: cx - 20, ymax: 520, xmax: cx + 20 };
+  return {
+    id,
+    label: "person",
+    box,
+    trajectory: [{ x: cx, y: 500 }],
+    color: "#ffffff",
+    lastSeen: timestamp,
+    misses: 0,
+    motion: createMotionState(box, timestamp),
+  };
+};
+
+// Run positions (one per second) for a single track through the analytics.
+// `inGallery` says whether the tracker could still re-identify it at a timestamp.
+const walk = (positions: (number | null)[], inGallery = (_timestamp: number) => false) => {
+  let previous: TrackedObject[] = [];
+  let lost: TrackedObject[] = [];
+  let dwells: Record<string, number[]> = {};
+  let entered = 0;
+  let exited = 0;
+  positions.forEach((cx, i) => {
+    const tracks = cx === null ? [] : [trackAt(1, cx, i * 1000)];
+    const gallery = cx === null && inGallery(i * 1000) ? new Set([1]) : new Set<number>();
+    const update = updateZoneAnalytics(previous, tracks, [zone], i * 1000, lost, gallery);
+    dwells = addDwells(dwells, update.dwells);
+    entered += update.transitions[zone.id].entered;
+    exited += update.transitions[zone.id].exited;
+    previous = update.tracks;
+    lost = update.lost;
+  });
+  return { previous, dwells, entered, exited };
+};
+
+describe("updateZoneAnalytics", () => {
+  it("records entry and exit times and the completed dwell", () => {
+    const { previous, dwells, entered, exited } = walk([300, 450, 500, 550, 700]);
+
+    expect(entered).toBe(1);
+    expect(exited).toBe(1);
+    expect(previous[0].zoneVisits).toEqual([{ zoneId: "queue", enteredAt: 1000, exitedAt: 4000 }]);
+    expect(dwells.queue).toEqual([3000]);
+  });
+
+  it("keeps an open visit while the track stays inside", () => {
+    const { previous, dwells } = walk([300, 450, 500]);
+
+    expect(previous[0].zoneVisits).toEqual([{ zoneId: "queue", enteredAt: 1000 }]);
+    expect(dwells.queue).toBeUndefined();
+  });
+
+  it("closes the visit at the last sighting when the track is dropped inside", () => {
+    const { dwells } = walk([300, 450, 500, null]);
+
+    expect(dwells.queue).toEqual([1000]);
+  });
+
+  it("continues the visit of a track re-identified from the gallery", () => {
+    // Dropped inside the zone, then back under the same ID two seconds later
+    const { previous, dwells, entered, exited } = walk([300, 450, 500, null, null, 520, 700], () => true);
+
+    expect(entered).toBe(1);
+    expect(exited).toBe(1);
+    expect(previous[0].zoneVisits).toEqual([{ zoneId: "queue", enteredAt: 1000, exitedAt: 6000 }]);
+    expect(dwells.queue).toEqual([5000]);
+  });
+
+  it("closes the visit of a lost track at its last sighting once it leaves the gallery", () => {
+    const { dwells } = walk([300, 450, 500, null, null, null], timestamp => timestamp <= 4000);
+
+    expect(dwells.queue).toEqual([1000]);
+  });
+
+  it("ignores predicted positions of a coasting track", () => {
+    const seen = updateZoneAnalytics([], [trackAt(1, 300, 0)], [zone], 0).tracks;
+    // Predicted into the zone without being detected there
+    const coasting = { ...trackAt(1, 500, 0), trajectory: [{ x: 300, y: 500 }, { x: 500, y: 500 }], misses: 1 };
+    const drifted = updateZoneAnalytics(seen, [coasting], [zone], 1000);
+    expect(drifted.transitions.queue.entered).toBe(0);
+    expect(drifted.tracks[0].zoneVisits).toEqual([]);
+    expect(buildZoneStats([zone], {}, drifted.tracks)[0].occupancy).toBe(0);
+
+    // Dropped while coasting: no visit to close
+    expect(updateZoneAnalytics(drifted.tracks, [], [zone], 2000).dwells.queue).toEqual([]);
+
+    // Detected inside after coasting: compared with where it was last detected
+    const found = updateZoneAnalytics(drifted.tracks, [trackAt(1, 520, 2000)], [zone], 2000);
+    expect(found.transitions.queue.entered).toBe(1);
+    expect(found.tracks[0].zoneVisits).toEqual([{ zoneId: "queue", enteredAt: 2000 }]);
+  });
+
+  it("summarizes dwell times per zone", () => {
+    const inside = { ...trackAt(1, 500, 0), zoneVisits: [{ zoneId: "queue", enteredAt: 0 }] };
+    const [stats] = buildZoneStats([zone], {}, [inside, trackAt(2, 500, 0)], { queue: [1000, 5000, 3000, 2000] });
+
+    // Occupancy counts open visits, not boxes that happen to be inside
+    expect(stats.occupancy).toBe(1);
+    expect(stats.avgDwell).toBe(2.75);
+    expect(stats.medianDwell).toBe(2.5);
+    expect(stats.maxDwell).toBe(5);
+  });
+});
@@ -0,0 +1,195 @@
+import { Point, RoiEventType, RoiZone, TrackedObject, ZoneStats, ZoneVisit } from "../types";
+import { getBoxCenter, isPointInPolygon } from "./mathUtils";
+
+// --- ROI Zone Analytics ---
+
+export interface ZoneCounts {
+  entered: number;
+  exited: number;
+}
+
+export const ZONE_COLORS = ['#ffcc00', '#00f3ff', '#00ff9d', '#ff0055', '#bd00ff', '#ff8800'];
+
+export const createZone = (name: string, index: number): RoiZone => ({
+  id: `zone-${Date.now().toString(36)}-${index}`,
+  name,
+  color: ZONE_COLORS[index % ZONE_COLORS.length],
+  points: [],
+});
+
+// A zone needs at least a triangle before it can count anything
+export const isZoneClosed = (zone: RoiZone): boolean => zone.points.length > 2;
+
+export const isTrackInZone = (track: TrackedObject, zone: RoiZone): boolean => {
+  return isZoneClosed(zone) && isPointInPolygon(getBoxCenter(track.box), zone.points);
+};
+
+// Center of the track's latest detection. A coasting track has one predicted
+// point per miss after it; undefined once those push it out of the trajectory.
+export const getObservedPosition = (track: TrackedObject): Point | undefined => {
+  return track.trajectory[track.trajectory.length - 1 - track.misses];
+};
+
+// An entry/exit as seen by the analytics; the caller adds time and IDs
+export interface ZoneTransition {
+  type: RoiEventType;
+  trackId: number;
+  label: string;
+  zoneId: string;
+  zoneName: string;
+  position: Point;
+}
+
+export interface ZoneUpdate {
+  tracks: TrackedObject[]; // Input tracks with `zoneVisits` brought up to date
+  transitions: Record<string, ZoneCounts>;
+  events: ZoneTransition[];
+  dwells: Record<string, number[]>; // Durations (ms) of visits closed in this update
+  lost: TrackedObject[]; // Dropped tracks that may still be re-identified, visits left open
+}
+
+// Compare each track's previous and current position against every zone,
+// counting entries/exits and maintaining per-track zone visits for dwell time.
+// Only tracks present in both updates can transition; a track that appears
+// inside a zone starts a visit without counting as an entry. Only detected
+// positions count: coasting tracks keep their visits as they were, and a track
+// seen again is compared with where it was last seen.
+// `lost` comes from the previous update. While its ID is in `reidentifiable` (the
+// tracker's gallery) a dropped track keeps its visits open: if it is re-identified
+// it carries on as if it had never left, otherwise they are closed at its last sighting.
+export const updateZoneAnalytics = (
+  previousTracks: TrackedObject[],
+  tracks: TrackedObject[],
+  zones: RoiZone[],
+  timestamp: number,
+  lost: TrackedObject[] = [],
+  reidentifiable: ReadonlySet<number> = new Set()
+): ZoneUpdate => {
+  const transitions: Record<string, ZoneCounts> = {};
+  const dwells: Record<string, number[]> = {};
+  const events: ZoneTransition[] = [];
+  const previousById = new Map([...lost, ...previousTracks].map(t => [t.id, t]));
+  for (const zone of zones) {
+    transitions[zone.id] = { entered: 0, exited: 0 };
+    dwells[zone.id] = [];
+  }
+
+  const updatedTracks = tracks.map(track => {
+    const oldTrack = previousById.get(track.id);
+    const visits = (oldTrack?.zoneVisits ?? []).map(v => ({ ...v }));
+    if (track.misses > 0) return { ...track, zoneVisits: visits };
+    const lastSeenAt = oldTrack && getObservedPosition(oldTrack);
+
+    for (const zone of zones) {
+      if (!isZoneClosed(zone)) continue;
+      const isIn = isTrackInZone(track, zone);
+      const openVisit = visits.find(v => v.zoneId === zone.id && v.exitedAt === undefined);
+
+      if (oldTrack) {
+        const wasIn = lastSeenAt ? isPointInPolygon(lastSeenAt, zone.points) : openVisit !== undefined;
+        const type: RoiEventType | null = !wasIn && isIn ? 'enter' : wasIn && !isIn ? 'exit' : null;
+        if (type) {
+          if (type === 'enter') transitions[zone.id].entered++;
+          else transitions[zone.id].exited++;
+          events.push({
+            type,
+            trackId: track.id,
+            label: track.label,
+            zoneId: zone.id,
+            zoneName: zone.name,
+            position: getBoxCenter(track.box),
+          });
+        }
+      }
+
+      if (isIn && !openVisit) {
+        visits.push({ zoneId: zone.id, enteredAt: timestamp });
+      } else if (!isIn && openVisit) {
+        openVisit.exitedAt = timestamp;
+        dwells[zone.id].push(timestamp - openVisit.enteredAt);
+      }
+    }
+    return { ...track, zoneVisits: visits };
+  });
+
+  // Tracks dropped by the tracker while inside a zone leave at their last sighting
+  const currentIds = new Set(tracks.map(t => t.id));
+  const stillLost: TrackedObject[] = [];
+  for (const oldTrack of previousById.values()) {
+    if (currentIds.has(oldTrack.id)) continue;
+    if (reidentifiable.has(oldTrack.id)) {
+      stillLost.push(oldTrack);
+      continue;
+    }
+    for (const visit of oldTrack.zoneVisits ?? []) {
+      if (visit.exitedAt === undefined && dwells[visit.zoneId]) {
+        dwells[visit.zoneId].push(Math.max(0, oldTrack.lastSeen - visit.enteredAt));
+      }
+    }
+  }
+
+  return { tracks: updatedTracks, transitions, events, dwells, lost: stillLost };
+};
+
+// Visits the track has not left yet
+export const getOpenVisits = (track: TrackedObject): ZoneVisit[] => {
+  return (track.zoneVisits ?? []).filter(v => v.exitedAt === undefined);
+};
+
+export const addDwells = (
+  totals: Record<string, number[]>,
+  delta: Record<string, number[]>
+): Record<string, number[]> => {
+  const result = { ...totals };
+  for (const [zoneId, durations] of Object.entries(delta)) {
+    if (durations.length === 0) continue;
+    result[zoneId] = [...(result[zoneId] ?? []), ...durations];
+  }
+  return result;
+};
+
+const summarizeDwell = (durations: number[]) => {
+  if (durations.length === 0) return { avgDwell: null, medianDwell: null, maxDwell: null };
+  const sorted = [...durations].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return {
+    avgDwell: sorted.reduce((sum, d) => sum + d, 0) / sorted.length / 1000,
+    medianDwell: median / 1000,
+    maxDwell: sorted[sorted.length - 1] / 1000,
+  };
+};
+
+export const addZoneCounts = (
+  totals: Record<string, ZoneCounts>,
+  delta: Record<string, ZoneCounts>
+): Record<string, ZoneCounts> => {
+  const result = { ...totals };
+  for (const [zoneId, counts] of Object.entries(delta)) {
+    const current = result[zoneId] ?? { entered: 0, exited: 0 };
+    result[zoneId] = {
+      entered: current.entered + counts.entered,
+      exited: current.exited + counts.exited,
+    };
+  }
+  return result;
+};
+
+// Occupancy is the number of open visits, so it agrees with dwell timers and
+// the time series, which skip coasting tracks too
+export const buildZoneStats = (
+  zones: RoiZone[],
+  totals: Record<string, ZoneCounts>,
+  tracks: TrackedObject[],
+  dwells: Record<string, number[]> = {}
+): ZoneStats[] => {
+  return zones.map(zone => ({
+    zoneId: zone.id,
+    name: zone.name,
+    color: zone.color,
+    entered: totals[zone.id]?.entered ?? 0,
+    exited: totals[zone.id]?.exited ?? 0,
+    occupancy: tracks.filter(t => getOpenVisits(t).some(v => v.zoneId === zone.id)).length,
+    ...summarizeDwell(dwells[zone.id] ?? []),
+  }));
+};
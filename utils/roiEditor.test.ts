@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  clientToNormalized,
+  emptyHistory,
+  getContentRect,
+  hitTestPolygon,
+  parseRoiDefinition,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from "./roiEditor";
+
+// A 1600x900 video shown in a 800x800 element: 800x450 content, 175px bars
+const element = { left: 0, top: 0, width: 800, height: 800 };
+const content = getContentRect(element, 1600, 900);
+
+describe("letterbox mapping", () => {
+  it("maps clicks inside the video and ignores the bars", () => {
+    expect(content).toEqual({ left: 0, top: 175, width: 800, height: 450 });
+    expect(clientToNormalized(400, 400, content)).toEqual({ x: 500, y: 500 });
+    expect(clientToNormalized(400, 100, content)).toBeNull();
+    expect(clientToNormalized(400, 100, content, true)).toEqual({ x: 500, y: 0 });
+  });
+});
+
+describe("polygon hit testing", () => {
+  const square = [{ x: 0, y: 0 }, { x: 500, y: 0 }, { x: 500, y: 500 }, { x: 0, y: 500 }];
+
+  it("prefers vertices, then edges", () => {
+    expect(hitTestPolygon(square, 403, 177, content)).toEqual({ type: "vertex", index: 1 });
+
+    // Bottom edge between vertex 2 and 3, including the closing edge
+    const bottom = hitTestPolygon(square, 200, 400, content);
+    expect(bottom).toMatchObject({ type: "edge", index: 3 });
+    expect(hitTestPolygon(square, 2, 300, content)).toMatchObject({ type: "edge", index: 4 });
+    expect(hitTestPolygon(square, 200, 300, content)).toBeNull();
+  });
+});
+
+describe("edit history", () => {
+  it("undoes and redoes, and a new edit clears redo", () => {
+    let history = pushHistory(emptyHistory<number>(), 1);
+    history = pushHistory(history, 2);
+
+    const undone = undoHistory(history, 3)!;
+    expect(undone.value).toBe(2);
+    const redone = redoHistory(undone.history, 2)!;
+    expect(redone.value).toBe(3);
+
+    expect(pushHistory(undone.history, 2).future).toEqual([]);
+    expect(undoHistory(emptyHistory<number>(), 1)).toBeNull();
+  });
+});
+
+describe("ROI definition files", () => {
+  it("accepts zones without lines and rejects malformed files", () => {
+    const zone = { id: "z1", name: "Door", color: "#fff", points: [{ x: 1, y: 2 }] };
+    expect(parseRoiDefinition({ zones: [zone] })).toEqual({ zones: [zone], lines: [] });
+    expect(() => parseRoiDefinition({ zones: [{ ...zone, points: [{ x: "a" }] }] })).toThrow();
+    expect(() => parseRoiDefinition([])).toThrow();
+  });
+});
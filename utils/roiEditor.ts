@@ -0,0 +1,197 @@
+import { Point, RoiDefinition, RoiZone, Tripwire } from "../types";
+
+// --- Letterbox-Aware Coordinates ---
+// The canvas is shown with `object-contain`, so the video only fills part of the
+// element when aspect ratios differ. All mapping goes through the content rect.
+
+export interface ContentRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const getContentRect = (element: ContentRect, contentWidth: number, contentHeight: number): ContentRect => {
+  if (!contentWidth || !contentHeight) return element;
+  const scale = Math.min(element.width / contentWidth, element.height / contentHeight);
+  const width = contentWidth * scale;
+  const height = contentHeight * scale;
+  return {
+    left: element.left + (element.width - width) / 2,
+    top: element.top + (element.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+// Null when the pointer is over the letterbox bars, unless `clamp` pins it to the frame edge
+export const clientToNormalized = (
+  clientX: number,
+  clientY: number,
+  content: ContentRect,
+  clamp = false
+): Point | null => {
+  const x = ((clientX - content.left) / content.width) * 1000;
+  const y = ((clientY - content.top) / content.height) * 1000;
+  if (clamp) return { x: Math.min(1000, Math.max(0, x)), y: Math.min(1000, Math.max(0, y)) };
+  if (x < 0 || x > 1000 || y < 0 || y > 1000) return null;
+  return { x, y };
+};
+
+const normalizedToClient = (p: Point, content: ContentRect): Point => ({
+  x: content.left + (p.x / 1000) * content.width,
+  y: content.top + (p.y / 1000) * content.height,
+});
+
+// --- Polygon Hit Testing & Editing ---
+
+export type PolygonHit =
+  | { type: 'vertex'; index: number }
+  | { type: 'edge'; index: number; point: Point } // Insert at `index`, between index-1 and index
+  | null;
+
+const distanceToSegment = (p: Point, a: Point, b: Point): { distance: number; t: number } => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return { distance: Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)), t };
+};
+
+// Hit radius is in screen pixels, so handles are equally easy to grab at any size
+export const hitTestPolygon = (
+  points: Point[],
+  clientX: number,
+  clientY: number,
+  content: ContentRect,
+  radiusPx = 8
+): PolygonHit => {
+  const pointer = { x: clientX, y: clientY };
+  const screen = points.map(p => normalizedToClient(p, content));
+
+  let nearest = -1;
+  let nearestDistance = radiusPx;
+  screen.forEach((p, i) => {
+    const d = Math.hypot(p.x - pointer.x, p.y - pointer.y);
+    if (d <= nearestDistance) {
+      nearest = i;
+      nearestDistance = d;
+    }
+  });
+  if (nearest >= 0) return { type: 'vertex', index: nearest };
+
+  // Edges, including the closing edge once the polygon has three points
+  const edgeCount = points.length > 2 ? points.length : points.length - 1;
+  for (let i = 0; i < edgeCount; i++) {
+    const a = screen[i];
+    const b = screen[(i + 1) % points.length];
+    const { distance, t } = distanceToSegment(pointer, a, b);
+    if (distance <= radiusPx) {
+      const pa = points[i];
+      const pb = points[(i + 1) % points.length];
+      return { type: 'edge', index: i + 1, point: { x: pa.x + (pb.x - pa.x) * t, y: pa.y + (pb.y - pa.y) * t } };
+    }
+  }
+  return null;
+};
+
+export const insertVertex = (zone: RoiZone, index: number, point: Point): RoiZone => ({
+  ...zone,
+  points: [...zone.points.slice(0, index), point, ...zone.points.slice(index)],
+});
+
+export const moveVertex = (zone: RoiZone, index: number, point: Point): RoiZone => ({
+  ...zone,
+  points: zone.points.map((p, i) => (i === index ? point : p)),
+});
+
+export const deleteVertex = (zone: RoiZone, index: number): RoiZone => ({
+  ...zone,
+  points: zone.points.filter((_, i) => i !== index),
+});
+
+// --- Undo / Redo ---
+
+export interface EditHistory<T> {
+  past: T[];
+  future: T[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const emptyHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+// Record `current` before it is replaced by a new edit; clears the redo stack
+export const pushHistory = <T>(history: EditHistory<T>, current: T): EditHistory<T> => ({
+  past: [...history.past, current].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoHistory = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    value: history.past[history.past.length - 1],
+  };
+};
+
+export const redoHistory = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    value: history.future[0],
+  };
+};
+
+// --- Persistence & JSON ---
+
+const STORAGE_PREFIX = "vision-tracker:roi:";
+
+const isPoint = (p: unknown): p is Point => {
+  const { x, y } = (p ?? {}) as Record<string, unknown>;
+  return typeof x === "number" && typeof y === "number" && Number.isFinite(x) && Number.isFinite(y);
+};
+
+const isZone = (z: unknown): z is RoiZone => {
+  const { id, name, color, points } = (z ?? {}) as Record<string, unknown>;
+  return typeof id === "string" && typeof name === "string" && typeof color === "string"
+    && Array.isArray(points) && points.every(isPoint);
+};
+
+const isTripwire = (l: unknown): l is Tripwire => {
+  const { id, name, color, a, b } = (l ?? {}) as Record<string, unknown>;
+  return typeof id === "string" && typeof name === "string" && typeof color === "string" && isPoint(a) && isPoint(b);
+};
+
+// Throws on anything that isn't a valid definition, so imports fail loudly
+export const parseRoiDefinition = (data: unknown): RoiDefinition => {
+  const { zones, lines } = (data ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(zones) || !zones.every(isZone)) throw new Error("Invalid ROI file: bad or missing zones");
+  if (lines !== undefined && (!Array.isArray(lines) || !lines.every(isTripwire))) {
+    throw new Error("Invalid ROI file: bad lines");
+  }
+  return { zones, lines: (lines as Tripwire[] | undefined) ?? [] };
+};
+
+export const loadRoiDefinition = (sourceKey: string): RoiDefinition | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + sourceKey);
+    return raw ? parseRoiDefinition(JSON.parse(raw)) : null;
+  } catch (e) {
+    console.warn("Ignoring stored ROI definition:", e);
+    return null;
+  }
+};
+
+export const saveRoiDefinition = (sourceKey: string, definition: RoiDefinition) => {
+  try {
+    if (definition.zones.length === 0 && definition.lines.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + sourceKey);
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + sourceKey, JSON.stringify(definition));
+    }
+  } catch (e) {
+    // Storage can be full or disabled; editing still works without it
+    console.warn("Could not save ROI definition:", e);
+  }
+};
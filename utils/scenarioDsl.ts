@@ -0,0 +1,144 @@
+import { AppearanceDescriptor, DetectionResult, Point, RoiZone } from "../types";
+import { MotRecord } from "./motFormat";
+
+// --- Synthetic Tracking Scenarios ---
+// A small DSL for scripted scenes, used to regression-test the tracker and ROI
+// counting without video or a detector:
+//
+//   object('person', at(0, 100, 500), at(20, 500, 500), at(30, 500, 500), hidden(24, 27), at(50, 900, 500))
+//
+// walks right, stands still for ten frames (missed by the detector for four of
+// them) and walks on. Positions are box centers on the 0-1000 scale.
+
+export type PathStep =
+  | { kind: 'at'; frame: number; x: number; y: number }
+  | { kind: 'hidden'; from: number; to: number };
+
+export interface ScenarioObject {
+  label: string;
+  width: number;
+  height: number;
+  waypoints: { frame: number; x: number; y: number }[]; // Sorted; the object exists from the first to the last
+  hidden: [number, number][]; // Inclusive frame ranges without a detection (occlusion)
+  appearance?: AppearanceDescriptor; // Reported with every detection, for re-identification
+}
+
+export interface Scenario {
+  name: string;
+  frames: number;
+  frameMs?: number; // Time between frames; defaults to FRAME_MS
+  objects: ScenarioObject[];
+  zones?: RoiZone[];
+  jitter?: number; // Max detection offset from the true box, 0-1000 units
+  seed?: number; // Seeds jitter and detection order, so runs are repeatable
+}
+
+export interface GeneratedScenario {
+  groundTruth: MotRecord[]; // Frames are 1-based, as in MOTChallenge files
+  detections: DetectionResult[][]; // One list per frame
+  appearances: (AppearanceDescriptor | null)[][]; // Parallel to `detections`
+  frameMs: number;
+}
+
+export const FRAME_MS = 200;
+
+// --- DSL ---
+
+export const at = (frame: number, x: number, y: number): PathStep => ({ kind: 'at', frame, x, y });
+
+export const hidden = (from: number, to: number): PathStep => ({ kind: 'hidden', from, to });
+
+export const object = (label: string, ...steps: PathStep[]): ScenarioObject => sizedObject(label, 50, 100, ...steps);
+
+export const sizedObject = (label: string, width: number, height: number, ...steps: PathStep[]): ScenarioObject => {
+  const waypoints: ScenarioObject['waypoints'] = [];
+  const hiddenRanges: [number, number][] = [];
+  for (const step of steps) {
+    if (step.kind === 'at') waypoints.push({ frame: step.frame, x: step.x, y: step.y });
+    else hiddenRanges.push([step.from, step.to]);
+  }
+  if (waypoints.length === 0) throw new Error(`Object "${label}" needs at least one waypoint`);
+  waypoints.sort((a, b) => a.frame - b.frame);
+  return { label, width, height, waypoints, hidden: hiddenRanges };
+};
+
+export const withAppearance = (obj: ScenarioObject, appearance: AppearanceDescriptor): ScenarioObject => ({ ...obj, appearance });
+
+export const rectZone = (name: string, xmin: number, ymin: number, xmax: number, ymax: number): RoiZone => ({
+  id: name.toLowerCase().replace(/\W+/g, '-'),
+  name,
+  color: '#ffcc00',
+  points: [
+    { x: xmin, y: ymin },
+    { x: xmax, y: ymin },
+    { x: xmax, y: ymax },
+    { x: xmin, y: ymax },
+  ],
+});
+
+// --- Generation ---
+
+// mulberry32: tiny seeded PRNG returning [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Center at `frame`, linearly interpolated; null outside the object's lifetime
+export const getObjectCenter = (obj: ScenarioObject, frame: number): Point | null => {
+  const points = obj.waypoints;
+  if (frame < points[0].frame || frame > points[points.length - 1].frame) return null;
+  const next = points.findIndex(p => p.frame >= frame);
+  if (points[next].frame === frame || next === 0) return { x: points[next].x, y: points[next].y };
+  const prev = points[next - 1];
+  const t = (frame - prev.frame) / (points[next].frame - prev.frame);
+  return { x: prev.x + (points[next].x - prev.x) * t, y: prev.y + (points[next].y - prev.y) * t };
+};
+
+const isHidden = (obj: ScenarioObject, frame: number) => obj.hidden.some(([from, to]) => frame >= from && frame <= to);
+
+export const generateScenario = (scenario: Scenario): GeneratedScenario => {
+  const random = createRandom(scenario.seed ?? 1);
+  const jitter = scenario.jitter ?? 0;
+  const groundTruth: MotRecord[] = [];
+  const detections: DetectionResult[][] = [];
+  const appearances: (AppearanceDescriptor | null)[][] = [];
+
+  for (let frame = 0; frame < scenario.frames; frame++) {
+    const frameDetections: { detection: DetectionResult; appearance: AppearanceDescriptor | null }[] = [];
+    scenario.objects.forEach((obj, index) => {
+      const center = getObjectCenter(obj, frame);
+      if (!center) return;
+      const box = {
+        xmin: center.x - obj.width / 2,
+        ymin: center.y - obj.height / 2,
+        xmax: center.x + obj.width / 2,
+        ymax: center.y + obj.height / 2,
+      };
+      groundTruth.push({ frame: frame + 1, id: index + 1, box, confidence: 1 });
+      if (isHidden(obj, frame)) return;
+
+      const dx = (random() * 2 - 1) * jitter;
+      const dy = (random() * 2 - 1) * jitter;
+      frameDetections.push({
+        detection: { label: obj.label, box_2d: [box.ymin + dy, box.xmin + dx, box.ymax + dy, box.xmax + dx] },
+        appearance: obj.appearance ?? null,
+      });
+    });
+    // Detectors don't report objects in a stable order
+    for (let i = frameDetections.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [frameDetections[i], frameDetections[j]] = [frameDetections[j], frameDetections[i]];
+    }
+    detections.push(frameDetections.map(d => d.detection));
+    appearances.push(frameDetections.map(d => d.appearance));
+  }
+
+  return { groundTruth, detections, appearances, frameMs: scenario.frameMs ?? FRAME_MS };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { applyHomography, computeHomography } from "./homography";
+import { getCalibrationHomography, isSpeeding, parseSpeedLimits, updateKinematics } from "./speedEstimation";
+import { Tracker } from "./tracker";
+
+// Image square 100..900 maps to a 20 m x 20 m patch of ground
+const calibration = {
+  imagePoints: [{ x: 100, y: 100 }, { x: 900, y: 100 }, { x: 900, y: 900 }, { x: 100, y: 900 }],
+  worldPoints: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 20 }, { x: 0, y: 20 }],
+};
+
+describe("homography", () => {
+  it("maps the calibration points onto their world positions", () => {
+    const src = [{ x: 300, y: 400 }, { x: 700, y: 400 }, { x: 950, y: 900 }, { x: 50, y: 900 }];
+    const dst = [{ x: 0, y: 30 }, { x: 4, y: 30 }, { x: 4, y: 0 }, { x: 0, y: 0 }];
+    const h = computeHomography(src, dst)!;
+
+    src.forEach((p, i) => {
+      const mapped = applyHomography(h, p)!;
+      expect(mapped.x).toBeCloseTo(dst[i].x, 6);
+      expect(mapped.y).toBeCloseTo(dst[i].y, 6);
+    });
+  });
+
+  it("rejects degenerate point sets", () => {
+    const collinear = [{ x: 0, y: 0 }, { x: 100, y: 100 }, { x: 200, y: 200 }, { x: 300, y: 300 }];
+    expect(computeHomography(collinear, calibration.worldPoints)).toBeNull();
+  });
+});
+
+describe("speed estimation", () => {
+  it("reports speed and accumulated distance in world units", () => {
+    const h = getCalibrationHomography(calibration)!;
+    const tracker = new Tracker();
+    let tracks = updateKinematics([], tracker.update([{ label: "car", box_2d: [400, 100, 500, 200] }], 0), h);
+
+    // Move 40 units (1 m) right every 200 ms = 5 m/s = 18 km/h
+    for (let i = 1; i <= 10; i++) {
+      const x = 100 + 40 * i;
+      tracks = updateKinematics(tracks, tracker.update([{ label: "car", box_2d: [400, x, 500, x + 100] }], i * 200), h);
+    }
+
+    const kinematics = tracks[0].kinematics!;
+    expect(kinematics.distanceM).toBeCloseTo(10, 1);
+    expect(kinematics.speedKmh).toBeGreaterThan(15);
+    expect(kinematics.speedKmh).toBeLessThan(21);
+    expect(isSpeeding(tracks[0], parseSpeedLimits("Car: 10, person: 5"))).toBe(true);
+    expect(isSpeeding(tracks[0], parseSpeedLimits("car: 30"))).toBe(false);
+  });
+
+  it("carries the distance of a lost track over when it is revived", () => {
+    const h = getCalibrationHomography(calibration)!;
+    const car = (x: number) => ({ label: "car", box_2d: [400, x, 500, x + 100] as [number, number, number, number] });
+    const seen = updateKinematics([], new Tracker().update([car(100)], 0), h);
+    const moved = updateKinematics(seen, [{ ...seen[0], box: { ...seen[0].box, xmin: 140, xmax: 240 } }], h);
+
+    // Re-identified after being dropped: not among the previous tracks, only the lost ones
+    const revived = updateKinematics([], [{ ...moved[0], box: { ...moved[0].box, xmin: 180, xmax: 280 } }], h, moved);
+    expect(revived[0].kinematics!.distanceM).toBeCloseTo(2, 6);
+    expect(updateKinematics([], revived, h)[0].kinematics!.distanceM).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { BoundingBox, GroundCalibration, Point, SpeedLimits, TrackedObject } from "../types";
+import { applyHomography, computeHomography, Homography } from "./homography";
+import { getDistance } from "./mathUtils";
+
+// --- Ground-Plane Speed Estimation ---
+
+// A short step along the velocity keeps the projection close to linear
+const VELOCITY_STEP_S = 0.1;
+
+export const DEFAULT_WORLD_POINTS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+];
+
+export const EMPTY_CALIBRATION: GroundCalibration = {
+  imagePoints: [],
+  worldPoints: DEFAULT_WORLD_POINTS,
+};
+
+export const getCalibrationHomography = (calibration: GroundCalibration): Homography | null => {
+  return computeHomography(calibration.imagePoints, calibration.worldPoints);
+};
+
+// Objects touch the ground at the bottom of their box, not at its center
+export const getGroundContact = (box: BoundingBox): Point => ({
+  x: (box.xmin + box.xmax) / 2,
+  y: box.ymax,
+});
+
+// Speed comes from the Kalman velocity, projected through the homography;
+// distance accumulates between observed (non-coasting) ground positions.
+// Tracks without a previous observation start at zero distance; `lost` tracks
+// (dropped, awaiting re-identification) carry their distance over when revived.
+export const updateKinematics = (
+  previousTracks: TrackedObject[],
+  tracks: TrackedObject[],
+  homography: Homography,
+  lost: TrackedObject[] = []
+): TrackedObject[] => {
+  const previousById = new Map([...lost, ...previousTracks].map(t => [t.id, t]));
+
+  return tracks.map(track => {
+    const previous = previousById.get(track.id)?.kinematics;
+    const contact = getGroundContact(track.box);
+    const world = applyHomography(homography, contact);
+    const ahead = applyHomography(homography, {
+      x: contact.x + track.motion.vx * VELOCITY_STEP_S,
+      y: contact.y + track.motion.vy * VELOCITY_STEP_S,
+    });
+    if (!world || !ahead) return previous ? { ...track, kinematics: previous } : track;
+
+    const speedKmh = (getDistance(world, ahead) / VELOCITY_STEP_S) * 3.6;
+    if (track.misses > 0 && previous) {
+      return { ...track, kinematics: { ...previous, speedKmh } };
+    }
+    const step = previous ? getDistance(previous.groundPoint, world) : 0;
+    return {
+      ...track,
+      kinematics: { speedKmh, distanceM: (previous?.distanceM ?? 0) + step, groundPoint: world },
+    };
+  });
+};
+
+// "person: 8, car: 50" -> { person: 8, car: 50 }; malformed entries are skipped
+export const parseSpeedLimits = (text: string): SpeedLimits => {
+  const limits: SpeedLimits = {};
+  text.split(",").forEach(entry => {
+    const [label, value] = entry.split(":").map(s => s.trim());
+    const limit = Number(value);
+    if (label && value && Number.isFinite(limit) && limit > 0) limits[label.toLowerCase()] = limit;
+  });
+  return limits;
+};
+
+export const formatSpeedLimits = (limits: SpeedLimits): string => {
+  return Object.entries(limits).map(([label, limit]) => `${label}: ${limit}`).join(", ");
+};
+
+export const isSpeeding = (track: Pick<TrackedObject, "label" | "kinematics">, limits: SpeedLimits): boolean => {
+  const limit = limits[track.label.toLowerCase()];
+  return limit !== undefined && track.kinematics !== undefined && track.kinematics.speedKmh > limit;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { TimeBin } from "../types";
+import { diffBins, patchBins, recordBinSample, rebin, selectWindow, seriesToCsv } from "./timeSeries";
+
+const sample = (entries: number, persons: number, occupancy = 0) => ({
+  entries,
+  exits: 0,
+  objectsByClass: { person: persons },
+  occupancy,
+});
+
+describe("time series", () => {
+  it("folds updates into 5 s bins", () => {
+    let bins: TimeBin[] = [];
+    bins = recordBinSample(bins, 1000, sample(1, 2, 1));
+    bins = recordBinSample(bins, 4000, sample(0, 4, 3));
+    bins = recordBinSample(bins, 6000, sample(2, 1));
+
+    expect(bins).toHaveLength(2);
+    expect(bins[0]).toMatchObject({ start: 0, entries: 1, samples: 2, occupancySum: 4 });
+    expect(bins[0].objectSums.person).toBe(6);
+  });
+
+  it("averages object counts and fills gaps when re-binning", () => {
+    let bins: TimeBin[] = [];
+    bins = recordBinSample(bins, 0, sample(1, 2));
+    bins = recordBinSample(bins, 5000, sample(1, 4));
+    bins = recordBinSample(bins, 130_000, sample(3, 1));
+
+    const points = rebin(bins, 60_000);
+    expect(points.map(p => p.start)).toEqual([0, 60_000, 120_000]);
+    expect(points[0]).toMatchObject({ entries: 2, objectsByClass: { person: 3 } });
+    expect(points[1].entries).toBe(0);
+  });
+
+  it("selects windows ending at the latest bin", () => {
+    let bins: TimeBin[] = [];
+    for (let t = 0; t <= 600_000; t += 1000) bins = recordBinSample(bins, t, sample(1, 1));
+
+    const minute = selectWindow(bins, "1m");
+    expect(minute.binMs).toBe(5000);
+    expect(minute.points).toHaveLength(12);
+
+    const session = selectWindow(bins, "session");
+    expect(session.points.length).toBeLessThanOrEqual(60);
+    expect(session.points.reduce((n, p) => n + p.entries, 0)).toBe(601);
+
+    const csv = seriesToCsv(minute.points, minute.binMs).split("\n");
+    expect(csv[0]).toBe("bin_start_s,bin_length_s,entries,exits,occupancy_avg,objects_person");
+    expect(csv[1]).toBe("0,5,5,0,0.00,1.00");
+  });
+
+  it("publishes only the bins a mirror doesn't have yet", () => {
+    let bins: TimeBin[] = [];
+    let published: TimeBin[] = [];
+    let mirror: TimeBin[] = [];
+    for (let t = 0; t <= 60_000; t += 1000) {
+      bins = recordBinSample(bins, t, sample(1, 1));
+      if (t % 3000 !== 0) continue;
+      const patch = diffBins(published, bins);
+      expect(patch.bins.length).toBeLessThanOrEqual(2); // The changed last bin and maybe a new one
+      mirror = patchBins(mirror, patch);
+      published = bins;
+      expect(mirror).toEqual(bins);
+    }
+  });
+
+  it("follows bins trimmed from the front and starts over after a reset", () => {
+    const bins = [0, 5000, 10_000].map(t => recordBinSample([], t, sample(1, 1))[0]);
+    const changedLast = recordBinSample([bins[2]], 12_000, sample(1, 1))[0];
+    const next = [bins[1], changedLast, recordBinSample([], 15_000, sample(1, 1))[0]];
+
+    expect(diffBins(bins, next)).toEqual({ drop: 1, keep: 1, bins: next.slice(1) });
+    expect(patchBins(bins, diffBins(bins, next))).toEqual(next);
+    expect(diffBins(bins, [])).toEqual({ drop: 0, keep: 0, bins: [] });
+    expect(patchBins(bins, diffBins(bins, [changedLast]))).toEqual([changedLast]);
+  });
+});
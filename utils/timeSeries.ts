@@ -0,0 +1,181 @@
+import { TimeBin, TrackedObject } from "../types";
+import { toCsv } from "./exportUtils";
+import { getOpenVisits, ZoneCounts } from "./roiAnalytics";
+
+// --- Time-Series Binning ---
+// Every tracker update is folded into fixed 5 s base bins on the tracker's
+// clock (performance.now() live, video time offline). Charts and exports
+// re-bin these to the resolution of the selected window.
+
+export const BASE_BIN_MS = 5000;
+export const MAX_BINS = 17280; // 24 hours of base bins
+
+export interface BinSample {
+  entries: number;
+  exits: number;
+  objectsByClass: Record<string, number>;
+  occupancy: number; // Tracks inside at least one zone
+}
+
+// Entries/exits across all zones, visible tracks per class, and zone occupancy
+export const summarizeUpdate = (transitions: Record<string, ZoneCounts>, tracks: TrackedObject[]): BinSample => {
+  const counts = Object.values(transitions);
+  const objectsByClass: Record<string, number> = {};
+  tracks.forEach(t => {
+    objectsByClass[t.label] = (objectsByClass[t.label] ?? 0) + 1;
+  });
+  return {
+    entries: counts.reduce((n, c) => n + c.entered, 0),
+    exits: counts.reduce((n, c) => n + c.exited, 0),
+    objectsByClass,
+    occupancy: tracks.filter(t => getOpenVisits(t).length > 0).length,
+  };
+};
+
+const emptyBin = (start: number): TimeBin => ({
+  start,
+  entries: 0,
+  exits: 0,
+  samples: 0,
+  objectSums: {},
+  occupancySum: 0,
+});
+
+// Returns a new array; only the last bin is replaced, earlier ones are shared
+export const recordBinSample = (bins: TimeBin[], timestamp: number, sample: BinSample): TimeBin[] => {
+  const start = Math.floor(timestamp / BASE_BIN_MS) * BASE_BIN_MS;
+  const last = bins[bins.length - 1];
+  // A jump back in time (offline restart, seek) starts a fresh bin at the end
+  const current = last && last.start === start ? last : emptyBin(start);
+
+  const objectSums = { ...current.objectSums };
+  Object.entries(sample.objectsByClass).forEach(([label, count]) => {
+    objectSums[label] = (objectSums[label] ?? 0) + count;
+  });
+  const updated: TimeBin = {
+    start,
+    entries: current.entries + sample.entries,
+    exits: current.exits + sample.exits,
+    samples: current.samples + 1,
+    objectSums,
+    occupancySum: current.occupancySum + sample.occupancy,
+  };
+
+  const next = current === last ? [...bins.slice(0, -1), updated] : [...bins, updated];
+  return next.length > MAX_BINS ? next.slice(-MAX_BINS) : next;
+};
+
+// --- Publishing ---
+// Only the last bin ever changes and new bins are appended, so a receiver that
+// mirrors the series only needs the bins it doesn't have yet.
+
+// Keep bins [drop, drop + keep) of the mirrored series, then append `bins`
+export interface TimeSeriesPatch {
+  drop: number;
+  keep: number;
+  bins: TimeBin[];
+}
+
+// Patch from the series as last published to `next`. Bins are never mutated, so
+// unchanged ones are recognized by identity.
+export const diffBins = (published: TimeBin[], next: TimeBin[]): TimeSeriesPatch => {
+  const drop = next.length > 0 ? Math.max(0, published.indexOf(next[0])) : 0;
+  let keep = 0;
+  while (keep < next.length && next[keep] === published[drop + keep]) keep++;
+  return { drop: keep > 0 ? drop : 0, keep, bins: next.slice(keep) };
+};
+
+export const patchBins = (bins: TimeBin[], patch: TimeSeriesPatch): TimeBin[] => {
+  return [...bins.slice(patch.drop, patch.drop + patch.keep), ...patch.bins];
+};
+
+// --- Windows & Display Series ---
+
+export type TimeWindowId = '1m' | '15m' | 'session';
+
+export const TIME_WINDOWS: { id: TimeWindowId; label: string; durationMs: number; binMs: number }[] = [
+  { id: '1m', label: '1 min', durationMs: 60_000, binMs: BASE_BIN_MS },
+  { id: '15m', label: '15 min', durationMs: 15 * 60_000, binMs: 60_000 },
+  { id: 'session', label: 'Session', durationMs: Infinity, binMs: 0 }, // Bin size picked from the span
+];
+
+const MAX_SESSION_POINTS = 60;
+
+// Averages per bin, ready for charts and export
+export interface SeriesPoint {
+  start: number; // ms on the tracker clock
+  entries: number;
+  exits: number;
+  objectsByClass: Record<string, number>; // Mean count over the bin
+  occupancy: number; // Mean over the bin
+}
+
+// Merge base bins into `binMs` buckets, filling gaps with empty buckets so the
+// x axis stays linear in time
+export const rebin = (bins: TimeBin[], binMs: number): SeriesPoint[] => {
+  if (bins.length === 0) return [];
+  const merged = new Map<number, TimeBin>();
+  bins.forEach(bin => {
+    const start = Math.floor(bin.start / binMs) * binMs;
+    const acc = merged.get(start) ?? emptyBin(start);
+    Object.entries(bin.objectSums).forEach(([label, sum]) => {
+      acc.objectSums[label] = (acc.objectSums[label] ?? 0) + sum;
+    });
+    acc.entries += bin.entries;
+    acc.exits += bin.exits;
+    acc.samples += bin.samples;
+    acc.occupancySum += bin.occupancySum;
+    merged.set(start, acc);
+  });
+
+  const starts = Array.from(merged.keys());
+  const first = Math.min(...starts);
+  const last = Math.max(...starts);
+  const points: SeriesPoint[] = [];
+  for (let start = first; start <= last; start += binMs) {
+    const bin = merged.get(start) ?? emptyBin(start);
+    const n = Math.max(1, bin.samples);
+    const objectsByClass: Record<string, number> = {};
+    Object.entries(bin.objectSums).forEach(([label, sum]) => {
+      objectsByClass[label] = sum / n;
+    });
+    points.push({ start, entries: bin.entries, exits: bin.exits, objectsByClass, occupancy: bin.occupancySum / n });
+  }
+  return points;
+};
+
+// Bins within the window, which ends at the latest bin rather than the wall clock
+// so offline runs (video time) and live runs behave the same
+export const selectWindow = (bins: TimeBin[], windowId: TimeWindowId): { binMs: number; points: SeriesPoint[] } => {
+  const timeWindow = TIME_WINDOWS.find(w => w.id === windowId) ?? TIME_WINDOWS[0];
+  if (bins.length === 0) return { binMs: timeWindow.binMs || BASE_BIN_MS, points: [] };
+
+  const end = bins[bins.length - 1].start + BASE_BIN_MS;
+  const inWindow = bins.filter(b => b.start >= end - timeWindow.durationMs);
+  let binMs = timeWindow.binMs;
+  if (!binMs) {
+    const span = end - inWindow[0].start;
+    binMs = Math.max(1, Math.ceil(span / MAX_SESSION_POINTS / BASE_BIN_MS)) * BASE_BIN_MS;
+  }
+  return { binMs, points: rebin(inWindow, binMs) };
+};
+
+export const getSeriesClasses = (points: SeriesPoint[]): string[] => {
+  return Array.from(new Set(points.flatMap(p => Object.keys(p.objectsByClass)))).sort();
+};
+
+export const seriesToCsv = (points: SeriesPoint[], binMs: number): string => {
+  const classes = getSeriesClasses(points);
+  const origin = points[0]?.start ?? 0;
+  return toCsv(
+    ['bin_start_s', 'bin_length_s', 'entries', 'exits', 'occupancy_avg', ...classes.map(c => `objects_${c}`)],
+    points.map(p => [
+      ((p.start - origin) / 1000).toFixed(0),
+      binMs / 1000,
+      p.entries,
+      p.exits,
+      p.occupancy.toFixed(2),
+      ...classes.map(c => (p.objectsByClass[c] ?? 0).toFixed(2)),
+    ])
+  );
+};
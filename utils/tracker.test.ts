@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import { DetectionResult } from "../types";
+import { computeDescriptor } from "./appearance";
+import { solveGreedy, solveHungarian } from "./assignment";
+import { detectionToBox, getBoxCenter } from "./mathUtils";
+import { Tracker } from "./tracker";
+
+const FRAME_MS = 200;
+
+const detectionAt = (cx: number, cy: number, label = "person"): DetectionResult => ({
+  label,
+  box_2d: [cy - 50, cx - 25, cy + 50, cx + 25],
+});
+
+// Feed one detection list per frame through the tracker and collect the output
+const runSequence = (frames: DetectionResult[][], tracker = new Tracker()) => {
+  return frames.map((detections, i) => tracker.update(detections, i * FRAME_MS));
+};
+
+describe("Tracker motion model", () => {
+  it("estimates velocity of a constant-velocity target", () => {
+    // 50 units per 200ms frame = 250 units/s along x
+    const frames = Array.from({ length: 10 }, (_, i) => [detectionAt(100 + i * 50, 500)]);
+    const history = runSequence(frames);
+    const track = history[history.length - 1][0];
+
+    expect(history.every(tracks => tracks.length === 1)).toBe(true);
+    expect(track.motion.vx).toBeGreaterThan(200);
+    expect(track.motion.vx).toBeLessThan(300);
+    expect(Math.abs(track.motion.vy)).toBeLessThan(10);
+  });
+
+  it("keeps coasting tracks moving when detections are missed", () => {
+    const seen = Array.from({ length: 8 }, (_, i) => [detectionAt(100 + i * 40, 500)]);
+    const history = runSequence([...seen, [], [], []]);
+
+    const lastSeen = history[7][0];
+    const coast1 = history[8][0];
+    const coast3 = history[10][0];
+
+    expect(coast1.id).toBe(lastSeen.id);
+    expect(coast3.id).toBe(lastSeen.id);
+    expect(getBoxCenter(coast1.box).x).toBeGreaterThan(getBoxCenter(lastSeen.box).x);
+    expect(getBoxCenter(coast3.box).x).toBeGreaterThan(getBoxCenter(coast1.box).x);
+    // lastSeen only advances on real detections
+    expect(coast3.lastSeen).toBe(lastSeen.lastSeen);
+  });
+
+  it("keeps the ID of a target that accelerates beyond the static match threshold", () => {
+    // Warm up at 100 units/frame, then jump 220 units/frame (> the 150 gate)
+    const xs = [100, 200, 300, 400, 500, 720, 940];
+    const history = runSequence(xs.map(x => [detectionAt(x, 500)]));
+    const ids = history.map(tracks => tracks.map(t => t.id));
+
+    expect(ids.every(frameIds => frameIds.length === 1)).toBe(true);
+    expect(new Set(ids.flat()).size).toBe(1);
+  });
+
+  it("re-acquires a target after a short occlusion at its predicted position", () => {
+    const xs = [100, 150, 200, 250, 300, null, null, 450, 500];
+    const history = runSequence(xs.map(x => (x === null ? [] : [detectionAt(x, 500)])));
+
+    expect(new Set(history.flat().map(t => t.id)).size).toBe(1);
+  });
+});
+
+describe("Tracker dropout", () => {
+  it("drops a track after the configured number of missed frames", () => {
+    const tracker = new Tracker({ dropout: { mode: "frames", frames: 3 } });
+    const history = runSequence([[detectionAt(500, 500)], [], [], [], []], tracker);
+
+    expect(history.map(tracks => tracks.length)).toEqual([1, 1, 1, 1, 0]);
+  });
+
+  it("counts frames regardless of the time between them", () => {
+    const tracker = new Tracker({ dropout: { mode: "frames", frames: 2 } });
+    tracker.update([detectionAt(500, 500)], 0);
+    tracker.update([], 60_000);
+
+    expect(tracker.update([], 120_000)).toHaveLength(1);
+    expect(tracker.update([], 180_000)).toHaveLength(0);
+  });
+
+  it("drops a track after the configured number of seconds", () => {
+    const tracker = new Tracker({ dropout: { mode: "seconds", seconds: 1 } });
+    tracker.update([detectionAt(500, 500)], 0);
+
+    expect(tracker.update([], 1000)).toHaveLength(1);
+    expect(tracker.update([], 1200)).toHaveLength(0);
+  });
+});
+
+describe("Tracker state", () => {
+  it("keeps IDs independent between tracker instances", () => {
+    const a = new Tracker();
+    const b = new Tracker();
+    a.update([detectionAt(100, 100), detectionAt(800, 800)], 0);
+
+    expect(b.update([detectionAt(500, 500)], 0)[0].id).toBe(1);
+  });
+
+  it("produces identical tracks for identical input", () => {
+    const frames = Array.from({ length: 8 }, (_, i) => [detectionAt(100 + i * 40, 500), detectionAt(800 - i * 40, 520)]);
+
+    expect(runSequence(frames)).toEqual(runSequence(frames));
+  });
+
+  it("restarts IDs after reset", () => {
+    const tracker = new Tracker();
+    tracker.update([detectionAt(100, 100), detectionAt(800, 800)], 0);
+    tracker.reset();
+
+    expect(tracker.getTracks()).toHaveLength(0);
+    expect(tracker.update([detectionAt(500, 500)], 0)[0].id).toBe(1);
+  });
+
+  it("continues identically after snapshot and restore", () => {
+    const frames = Array.from({ length: 6 }, (_, i) => [detectionAt(100 + i * 50, 500), detectionAt(900 - i * 50, 300)]);
+    const original = new Tracker();
+    runSequence(frames.slice(0, 3), original);
+
+    const snapshot = JSON.parse(JSON.stringify(original.snapshot()));
+    const restored = new Tracker();
+    restored.restore(snapshot);
+
+    frames.slice(3).forEach((detections, i) => {
+      const t = (i + 3) * FRAME_MS;
+      expect(restored.update(detections, t)).toEqual(original.update(detections, t));
+    });
+  });
+
+  it("is not affected by mutating a snapshot", () => {
+    const tracker = new Tracker();
+    tracker.update([detectionAt(500, 500)], 0);
+    const snapshot = tracker.snapshot();
+    snapshot.tracks[0].box.xmin = -1;
+
+    expect(tracker.getTracks()[0].box.xmin).not.toBe(-1);
+  });
+});
+
+describe("Tracker association", () => {
+  // Two people standing side by side; then A steps back to the left while B
+  // drifts towards A's old spot. A's nearest detection is now B's.
+  const frames: DetectionResult[][] = [
+    [detectionAt(500, 500), detectionAt(540, 500)],
+    [detectionAt(500, 500), detectionAt(540, 500)],
+    [detectionAt(500, 500), detectionAt(540, 500)],
+    [detectionAt(440, 500), detectionAt(520, 500)],
+    [detectionAt(430, 500), detectionAt(520, 500)],
+  ];
+
+  // Number of frames where the track nearest each target changed ID
+  const countIdSwitches = (association: "greedy" | "hungarian") => {
+    const tracker = new Tracker({ association });
+    let switches = 0;
+    let previous: number[] | null = null;
+    frames.forEach((detections, i) => {
+      const tracks = tracker.update(detections, i * FRAME_MS);
+      const ids = detections.map(d => {
+        const target = getBoxCenter(detectionToBox(d));
+        const nearest = [...tracks].sort(
+          (a, b) => Math.abs(getBoxCenter(a.box).x - target.x) - Math.abs(getBoxCenter(b.box).x - target.x)
+        )[0];
+        return nearest.id;
+      });
+      if (previous) switches += ids.filter((id, k) => id !== previous![k]).length;
+      previous = ids;
+    });
+    return switches;
+  };
+
+  it("greedy matching swaps IDs of adjacent targets", () => {
+    expect(countIdSwitches("greedy")).toBeGreaterThan(0);
+  });
+
+  it("hungarian matching keeps IDs of adjacent targets", () => {
+    expect(countIdSwitches("hungarian")).toBe(0);
+  });
+
+  it("never matches across labels or beyond the distance gate", () => {
+    const tracker = new Tracker();
+    tracker.update([detectionAt(500, 500, "person")], 0);
+    const snapshot = tracker.snapshot();
+
+    const relabelled = tracker.update([detectionAt(505, 500, "car")], FRAME_MS);
+    tracker.restore(snapshot);
+    const farAway = tracker.update([detectionAt(800, 500)], FRAME_MS);
+
+    expect(relabelled).toHaveLength(2);
+    expect(farAway).toHaveLength(2);
+  });
+});
+
+describe("Tracker re-identification", () => {
+  // Descriptor of a flat-colored crop
+  const look = (r: number, g: number, b: number) => computeDescriptor(new Array(8 * 16).fill([r, g, b, 255]).flat(), 8, 16);
+  const red = look(200, 30, 30);
+  const blue = look(30, 30, 200);
+  const dropout = { mode: "frames" as const, frames: 2 };
+
+  // Seen for three frames, gone past the dropout window, back elsewhere at frame 10
+  const lostAndFound = (tracker: Tracker, returning: DetectionResult, appearance = red) => {
+    [0, 1, 2].forEach(i => tracker.update([detectionAt(200, 500)], i * FRAME_MS, [red]));
+    for (let i = 3; i < 10; i++) tracker.update([], i * FRAME_MS, []);
+    return tracker.update([returning], 10 * FRAME_MS, [appearance]);
+  };
+
+  it("gives a dropped track its ID back when it reappears looking the same", () => {
+    const tracker = new Tracker({ dropout });
+    const tracks = lostAndFound(tracker, detectionAt(800, 500));
+
+    expect(tracks.map(t => t.id)).toEqual([1]);
+    expect(tracks[0].trajectory).toHaveLength(1);
+    expect(tracker.getReidentifications()).toBe(1);
+    expect(tracker.getGalleryIds()).toEqual(new Set());
+  });
+
+  it("only keeps dropped tracks with an appearance in the gallery", () => {
+    const tracker = new Tracker({ dropout });
+    tracker.update([detectionAt(200, 300), detectionAt(200, 700)], 0, [red, null]);
+    for (let i = 1; i < 5; i++) tracker.update([], i * FRAME_MS, []);
+
+    expect(tracker.getGalleryIds()).toEqual(new Set([1]));
+  });
+
+  it("issues a new ID for a different look, label or after the gallery window", () => {
+    const tooLate = new Tracker({ dropout, reid: { enabled: true, gallerySeconds: 1, minSimilarity: 0.8 } });
+    const disabled = new Tracker({ dropout, reid: { enabled: false, gallerySeconds: 30, minSimilarity: 0.8 } });
+
+    expect(lostAndFound(new Tracker({ dropout }), detectionAt(800, 500), blue)[0].id).toBe(2);
+    expect(lostAndFound(new Tracker({ dropout }), detectionAt(800, 500, "car"))[0].id).toBe(2);
+    expect(lostAndFound(tooLate, detectionAt(800, 500))[0].id).toBe(2);
+    expect(lostAndFound(disabled, detectionAt(800, 500))[0].id).toBe(2);
+    expect(tooLate.getReidentifications()).toBe(0);
+  });
+
+  it("matches several returning objects to the right gallery entries", () => {
+    const tracker = new Tracker({ dropout });
+    tracker.update([detectionAt(200, 300), detectionAt(200, 700)], 0, [red, blue]);
+    for (let i = 1; i < 6; i++) tracker.update([], i * FRAME_MS, []);
+    // They come back with swapped positions
+    const tracks = tracker.update([detectionAt(800, 300), detectionAt(800, 700)], 6 * FRAME_MS, [blue, red]);
+
+    expect(tracks.map(t => [t.id, getBoxCenter(t.box).y]).sort()).toEqual([[1, 700], [2, 300]]);
+    expect(tracker.getReidentifications()).toBe(2);
+  });
+
+  it("keeps the gallery through snapshot and restore, and clears it on reset", () => {
+    const tracker = new Tracker({ dropout });
+    tracker.update([detectionAt(200, 500)], 0, [red]);
+    for (let i = 1; i < 4; i++) tracker.update([], i * FRAME_MS, []);
+
+    const restored = new Tracker();
+    restored.restore(JSON.parse(JSON.stringify(tracker.snapshot())));
+    expect(restored.update([detectionAt(800, 500)], 4 * FRAME_MS, [red])[0].id).toBe(1);
+
+    restored.reset();
+    expect(restored.snapshot().gallery).toEqual([]);
+    expect(restored.getReidentifications()).toBe(0);
+  });
+});
+
+describe("solveHungarian", () => {
+  it("finds the minimum-cost assignment where greedy does not", () => {
+    const cost = [
+      [1, 2],
+      [2, 10],
+    ];
+    expect(solveGreedy(cost)).toEqual([0, 1]);
+    expect(solveHungarian(cost)).toEqual([1, 0]);
+  });
+
+  it("handles rectangular matrices and gated pairs", () => {
+    const cost = [
+      [Infinity, 3, 1],
+      [Infinity, Infinity, Infinity],
+    ];
+    expect(solveHungarian(cost)).toEqual([2, -1]);
+    expect(solveHungarian([[1], [0.5], [2]])).toEqual([-1, 0, -1]);
+  });
+});
@@ -0,0 +1,255 @@
+import { AppearanceDescriptor, BoundingBox, DetectionResult, Point, TrackedObject, TrackerConfig, TrackerSnapshot } from "../types";
+import { blendAppearance, getAppearanceSimilarity } from "./appearance";
+import { solveGreedy, solveHungarian } from "./assignment";
+import { correctMotion, createMotionState, motionToBox, predictMotion } from "./kalman";
+import { detectionToBox, getBoxCenter, getDistance, getIoU, getTrackColor } from "./mathUtils";
+
+// --- Tracking Logic (Client-Side "Deep SORT" Simulation) ---
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  association: 'hungarian',
+  iouWeight: 0.5,
+  distanceWeight: 0.5,
+  maxDistance: 150, // Distance threshold (0-1000 scale)
+  minIou: 0,
+  maxTrajectoryLength: 30, // "last 30 frames" as requested
+  dropout: { mode: 'frames', frames: 5 }, // How many frames an object can be missing before ID is dropped
+  reid: { enabled: true, gallerySeconds: 30, minSimilarity: 0.8 },
+};
+
+// Oldest dropped tracks are forgotten first beyond this
+export const MAX_GALLERY_SIZE = 100;
+
+// Association cost between a predicted track box and a detection.
+// IoU alone jumps too much with API latency, so it is blended with center distance.
+export const getAssociationCost = (
+  trackBox: BoundingBox,
+  trackLabel: string,
+  detection: DetectionResult,
+  config: TrackerConfig
+): number => {
+  if (detection.label !== trackLabel) return Infinity;
+  const detBox = detectionToBox(detection);
+  const distance = getDistance(getBoxCenter(trackBox), getBoxCenter(detBox));
+  if (distance >= config.maxDistance) return Infinity;
+  const iou = getIoU(trackBox, detBox);
+  if (iou < config.minIou) return Infinity;
+  return config.iouWeight * (1 - iou) + config.distanceWeight * (distance / config.maxDistance);
+};
+
+// Tracks are plain JSON, so a JSON round-trip keeps snapshots independent
+const cloneTracks = (tracks: TrackedObject[]): TrackedObject[] => JSON.parse(JSON.stringify(tracks));
+
+export class Tracker {
+  private config: TrackerConfig;
+  private tracks: TrackedObject[] = [];
+  private nextId = 1;
+  private gallery: TrackedObject[] = []; // Dropped tracks, as last seen
+  private reidentifications = 0;
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  }
+
+  getConfig(): TrackerConfig {
+    return this.config;
+  }
+
+  getTracks(): TrackedObject[] {
+    return this.tracks;
+  }
+
+  // Dropped tracks recovered by appearance since the last reset
+  getReidentifications(): number {
+    return this.reidentifications;
+  }
+
+  // IDs of dropped tracks that can still be re-identified
+  getGalleryIds(): Set<number> {
+    return new Set(this.gallery.map(t => t.id));
+  }
+
+  // Run one predict/associate/update cycle. `timestamp` is in ms.
+  // `appearances` holds a descriptor (or null) per detection, when frames are available.
+  update(
+    detections: DetectionResult[],
+    timestamp: number,
+    appearances?: (AppearanceDescriptor | null)[]
+  ): TrackedObject[] {
+    const updatedTracks: TrackedObject[] = [];
+
+    // 1. Prediction Step: Move every track forward to the detection time
+    // using its constant-velocity Kalman state.
+    const predictedTracks = this.tracks.map(track => {
+      const motion = predictMotion(track.motion, timestamp);
+      return { track, motion, box: motionToBox(motion) };
+    });
+
+    // 2. Matching Step
+    // Build a gated cost matrix and solve it with the configured method
+    const costMatrix = predictedTracks.map(({ track, box }) =>
+      detections.map(detection => getAssociationCost(box, track.label, detection, this.config))
+    );
+    const assignment = this.config.association === 'greedy'
+      ? solveGreedy(costMatrix)
+      : solveHungarian(costMatrix);
+    const matchedDetections = new Set<number>();
+
+    predictedTracks.forEach(({ track, motion, box: predictedBox }, trackIndex) => {
+      const matchIndex = assignment[trackIndex];
+
+      if (matchIndex !== -1) {
+        // Match found: Correct the prediction with the measurement
+        const correctedMotion = correctMotion(motion, detectionToBox(detections[matchIndex]));
+        const newBox = motionToBox(correctedMotion);
+        const appearance = appearances?.[matchIndex];
+
+        updatedTracks.push({
+          ...track,
+          box: newBox,
+          trajectory: this.appendTrajectory(track.trajectory, getBoxCenter(newBox)),
+          lastSeen: timestamp,
+          misses: 0,
+          motion: correctedMotion,
+          appearance: appearance ? blendAppearance(track.appearance, appearance) : track.appearance,
+        });
+        matchedDetections.add(matchIndex);
+      } else {
+        // No match found: Coast on the prediction if it hasn't disappeared for too long
+        const coasting: TrackedObject = {
+          ...track,
+          box: predictedBox,
+          trajectory: this.appendTrajectory(track.trajectory, getBoxCenter(predictedBox)),
+          misses: track.misses + 1,
+          motion,
+        };
+        if (!this.isExpired(coasting, timestamp)) {
+          updatedTracks.push(coasting);
+        } else {
+          this.addToGallery(track);
+        }
+      }
+    });
+
+    // 3. Re-identification
+    // Unmatched detections that look like a recently dropped track get its ID back
+    this.gallery = this.gallery.filter(t => timestamp - t.lastSeen <= this.config.reid.gallerySeconds * 1000);
+    const unmatched = detections.map((_, index) => index).filter(index => !matchedDetections.has(index));
+    this.reidentify(unmatched, detections, appearances, timestamp).forEach((track, index) => {
+      updatedTracks.push(track);
+      matchedDetections.add(index);
+    });
+
+    // 4. New Tracks
+    // Create new tracks for the remaining detections
+    detections.forEach((detection, index) => {
+      if (matchedDetections.has(index)) return;
+      const newBox = detectionToBox(detection);
+      const appearance = appearances?.[index];
+
+      const id = this.nextId++;
+      updatedTracks.push({
+        id,
+        label: detection.label,
+        box: newBox,
+        trajectory: [getBoxCenter(newBox)],
+        color: getTrackColor(id),
+        lastSeen: timestamp,
+        misses: 0,
+        motion: createMotionState(newBox, timestamp),
+        appearance: appearance ?? undefined,
+      });
+    });
+
+    this.tracks = updatedTracks;
+    return updatedTracks;
+  }
+
+  // Drop all tracks and restart IDs at 1; the config is kept
+  reset(): void {
+    this.tracks = [];
+    this.nextId = 1;
+    this.gallery = [];
+    this.reidentifications = 0;
+  }
+
+  snapshot(): TrackerSnapshot {
+    return {
+      config: JSON.parse(JSON.stringify(this.config)),
+      nextId: this.nextId,
+      tracks: cloneTracks(this.tracks),
+      gallery: cloneTracks(this.gallery),
+      reidentifications: this.reidentifications,
+    };
+  }
+
+  restore(snapshot: TrackerSnapshot): void {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...snapshot.config };
+    this.nextId = snapshot.nextId;
+    this.tracks = cloneTracks(snapshot.tracks);
+    this.gallery = cloneTracks(snapshot.gallery);
+    this.reidentifications = snapshot.reidentifications;
+  }
+
+  // Keep a dropped track for re-identification; without an appearance it can't be recognized
+  private addToGallery(track: TrackedObject): void {
+    if (!this.config.reid.enabled || !track.appearance) return;
+    this.gallery = [...this.gallery, track].slice(-MAX_GALLERY_SIZE);
+  }
+
+  // Match detections against the gallery by appearance, one-to-one. Returns the
+  // revived tracks keyed by detection index; they restart their motion and
+  // trajectory at the detection, since the object may have moved anywhere.
+  private reidentify(
+    candidates: number[],
+    detections: DetectionResult[],
+    appearances: (AppearanceDescriptor | null)[] | undefined,
+    timestamp: number
+  ): Map<number, TrackedObject> {
+    const revived = new Map<number, TrackedObject>();
+    if (!this.config.reid.enabled || !appearances || candidates.length === 0 || this.gallery.length === 0) {
+      return revived;
+    }
+
+    const costMatrix = this.gallery.map(lost => candidates.map(index => {
+      const appearance = appearances[index];
+      if (!appearance || !lost.appearance || detections[index].label !== lost.label) return Infinity;
+      const similarity = getAppearanceSimilarity(lost.appearance, appearance);
+      return similarity >= this.config.reid.minSimilarity ? 1 - similarity : Infinity;
+    }));
+    const assignment = solveHungarian(costMatrix);
+
+    assignment.forEach((k, galleryIndex) => {
+      if (k === -1) return;
+      const index = candidates[k];
+      const lost = this.gallery[galleryIndex];
+      const newBox = detectionToBox(detections[index]);
+      revived.set(index, {
+        id: lost.id,
+        label: lost.label,
+        box: newBox,
+        trajectory: [getBoxCenter(newBox)],
+        color: lost.color,
+        lastSeen: timestamp,
+        misses: 0,
+        motion: createMotionState(newBox, timestamp),
+        appearance: blendAppearance(lost.appearance, appearances[index]!),
+      });
+    });
+    this.gallery = this.gallery.filter((_, galleryIndex) => assignment[galleryIndex] === -1);
+    this.reidentifications += revived.size;
+    return revived;
+  }
+
+  private isExpired(track: TrackedObject, timestamp: number): boolean {
+    const { dropout } = this.config;
+    if (dropout.mode === 'frames') {
+      return track.misses > dropout.frames;
+    }
+    return timestamp - track.lastSeen > dropout.seconds * 1000;
+  }
+
+  private appendTrajectory(trajectory: Point[], point: Point): Point[] {
+    return [...trajectory, point].slice(-this.config.maxTrajectoryLength);
+  }
+}
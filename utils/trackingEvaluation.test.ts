@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { AssociationMethod } from "../types";
+import { computeDescriptor } from "./appearance";
+import { at, generateScenario, getObjectCenter, hidden, object, rectZone, Scenario, withAppearance } from "./scenarioDsl";
+import { countTrueCrossings, runScenario } from "./trackingEvaluation";
+
+const door = rectZone("Door", 450, 0, 1000, 1000);
+
+// Regression scenarios: the tracker and ROI counting must stay perfect on these
+const SCENARIOS: Scenario[] = [
+  {
+    name: "crossing paths",
+    frames: 40,
+    jitter: 5,
+    objects: [
+      object("person", at(0, 100, 350), at(39, 900, 650)),
+      object("person", at(0, 100, 650), at(39, 900, 350)),
+    ],
+    zones: [door],
+  },
+  {
+    name: "short occlusion",
+    frames: 40,
+    jitter: 5,
+    objects: [object("person", at(0, 100, 500), hidden(15, 18), at(39, 900, 500))],
+    zones: [door],
+  },
+  {
+    name: "stop and go",
+    frames: 60,
+    jitter: 5,
+    objects: [
+      object("person", at(0, 100, 500), at(15, 400, 500), at(30, 400, 500), at(45, 700, 500), at(59, 900, 500)),
+      object("car", at(0, 900, 200), at(59, 100, 200)),
+    ],
+    zones: [door],
+  },
+];
+
+const METHODS: AssociationMethod[] = ["hungarian", "greedy"];
+
+describe("scenario DSL", () => {
+  const walker = object("person", at(0, 100, 500), at(10, 200, 500), at(20, 200, 500), hidden(12, 14));
+
+  it("interpolates between waypoints and holds still between equal ones", () => {
+    expect(getObjectCenter(walker, 5)).toEqual({ x: 150, y: 500 });
+    expect(getObjectCenter(walker, 15)).toEqual({ x: 200, y: 500 });
+    expect(getObjectCenter(walker, 21)).toBeNull();
+  });
+
+  it("keeps ground truth through occlusions but drops the detections", () => {
+    const { groundTruth, detections } = generateScenario({ name: "walk", frames: 25, objects: [walker] });
+    expect(groundTruth).toHaveLength(21);
+    expect(detections.map(d => d.length)).toEqual(
+      Array.from({ length: 25 }, (_, f) => (f > 20 || (f >= 12 && f <= 14) ? 0 : 1))
+    );
+  });
+
+  it("is repeatable for a given seed", () => {
+    const scenario = { ...SCENARIOS[0], seed: 7 };
+    expect(generateScenario(scenario)).toEqual(generateScenario(scenario));
+    expect(generateScenario(scenario)).not.toEqual(generateScenario({ ...scenario, seed: 8 }));
+  });
+
+  it("counts true crossings from the paths", () => {
+    expect(countTrueCrossings(SCENARIOS[2])).toEqual({ door: { entered: 1, exited: 1 } }); // The car starts inside
+  });
+});
+
+describe("tracking evaluation", () => {
+  for (const method of METHODS) {
+    for (const scenario of SCENARIOS) {
+      it(`${scenario.name} (${method})`, () => {
+        const report = runScenario(scenario, { association: method });
+        expect(report.mot.idSwitches).toBe(0);
+        expect(report.mot.fragmentations).toBe(0);
+        expect(report.mot.mota).toBeGreaterThanOrEqual(0.95);
+        expect(report.mot.idf1).toBeGreaterThanOrEqual(0.95);
+        expect(report.roiCountError).toBe(0);
+      });
+    }
+  }
+
+  it("reports a new identity when an occlusion outlasts the dropout window", () => {
+    const scenario: Scenario = {
+      name: "long occlusion",
+      frames: 40,
+      objects: [object("person", at(0, 100, 500), hidden(15, 24), at(39, 900, 500))],
+    };
+    const report = runScenario(scenario, { dropout: { mode: "frames", frames: 5 } });
+    expect(report.mot.idSwitches).toBe(1);
+    expect(report.mot.misses).toBeGreaterThan(0);
+    expect(report.mot.idf1).toBeLessThan(0.7);
+  });
+
+  it("keeps the identity through a long occlusion when appearances are reported", () => {
+    const look = (r: number, g: number, b: number) => computeDescriptor(new Array(8 * 16).fill([r, g, b, 255]).flat(), 8, 16);
+    const scenario: Scenario = {
+      name: "long occlusion, re-identified",
+      frames: 40,
+      objects: [
+        withAppearance(object("person", at(0, 100, 300), hidden(15, 24), at(39, 900, 300)), look(200, 30, 30)),
+        withAppearance(object("person", at(0, 100, 700), hidden(15, 24), at(39, 900, 700)), look(30, 30, 200)),
+      ],
+      zones: [door],
+    };
+    const report = runScenario(scenario, { dropout: { mode: "frames", frames: 5 } });
+    expect(report.mot.idSwitches).toBe(0);
+    expect(report.roiCountError).toBe(0);
+  });
+});
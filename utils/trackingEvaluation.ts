@@ -0,0 +1,116 @@
+import { RoiZone, TrackedObject, TrackerConfig } from "../types";
+import { isPointInPolygon } from "./mathUtils";
+import { MotRecord } from "./motFormat";
+import { DEFAULT_MATCH_IOU, evaluateMot, MotMetrics } from "./motMetrics";
+import { addZoneCounts, isZoneClosed, updateZoneAnalytics, ZoneCounts } from "./roiAnalytics";
+import { generateScenario, getObjectCenter, Scenario } from "./scenarioDsl";
+import { Tracker } from "./tracker";
+
+// --- Headless Tracking Evaluation ---
+// Runs a scenario's detections through the tracker and the zone analytics, the
+// same way the canvas does, and scores the result against the scenario's truth.
+
+export interface ZoneCountError {
+  zoneId: string;
+  zoneName: string;
+  trueEntered: number;
+  trueExited: number;
+  entered: number;
+  exited: number;
+  error: number; // |entered - trueEntered| + |exited - trueExited|
+}
+
+export interface EvaluationReport {
+  scenario: string;
+  mot: MotMetrics;
+  zones: ZoneCountError[];
+  roiCountError: number; // Summed over zones
+}
+
+// Zone crossings of the true object paths, frame to frame
+export const countTrueCrossings = (scenario: Scenario): Record<string, ZoneCounts> => {
+  const counts: Record<string, ZoneCounts> = {};
+  for (const zone of scenario.zones ?? []) {
+    counts[zone.id] = { entered: 0, exited: 0 };
+    if (!isZoneClosed(zone)) continue;
+    for (const obj of scenario.objects) {
+      let wasIn: boolean | null = null;
+      for (let frame = 0; frame < scenario.frames; frame++) {
+        const center = getObjectCenter(obj, frame);
+        if (!center) continue;
+        const isIn = isPointInPolygon(center, zone.points);
+        if (wasIn === false && isIn) counts[zone.id].entered++;
+        if (wasIn === true && !isIn) counts[zone.id].exited++;
+        wasIn = isIn;
+      }
+    }
+  }
+  return counts;
+};
+
+const toZoneErrors = (zones: RoiZone[], truth: Record<string, ZoneCounts>, counted: Record<string, ZoneCounts>): ZoneCountError[] => {
+  return zones.map(zone => {
+    const t = truth[zone.id] ?? { entered: 0, exited: 0 };
+    const c = counted[zone.id] ?? { entered: 0, exited: 0 };
+    return {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      trueEntered: t.entered,
+      trueExited: t.exited,
+      entered: c.entered,
+      exited: c.exited,
+      error: Math.abs(c.entered - t.entered) + Math.abs(c.exited - t.exited),
+    };
+  });
+};
+
+export const runScenario = (
+  scenario: Scenario,
+  trackerConfig: Partial<TrackerConfig> = {},
+  iouThreshold = DEFAULT_MATCH_IOU
+): EvaluationReport => {
+  const { groundTruth, detections, appearances, frameMs } = generateScenario(scenario);
+  const zones = scenario.zones ?? [];
+  const tracker = new Tracker(trackerConfig);
+  const hypotheses: MotRecord[] = [];
+  let previous: TrackedObject[] = [];
+  let lost: TrackedObject[] = [];
+  let counted: Record<string, ZoneCounts> = {};
+
+  detections.forEach((frameDetections, i) => {
+    const timestamp = i * frameMs;
+    const tracks = tracker.update(frameDetections, timestamp, appearances[i]);
+    const update = updateZoneAnalytics(previous, tracks, zones, timestamp, lost, tracker.getGalleryIds());
+    counted = addZoneCounts(counted, update.transitions);
+    previous = update.tracks;
+    lost = update.lost;
+    // Coasting tracks are drawn on screen, so they are scored too
+    update.tracks.forEach(t => hypotheses.push({ frame: i + 1, id: t.id, box: t.box, confidence: 1 }));
+  });
+
+  const zoneErrors = toZoneErrors(zones, countTrueCrossings(scenario), counted);
+  return {
+    scenario: scenario.name,
+    mot: evaluateMot(groundTruth, hypotheses, iouThreshold),
+    zones: zoneErrors,
+    roiCountError: zoneErrors.reduce((sum, z) => sum + z.error, 0),
+  };
+};
+
+const pct = (value: number) => (Number.isNaN(value) ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// One-line summary for logs and test output
+export const formatReport = (report: EvaluationReport): string => {
+  const { mot } = report;
+  return [
+    `${report.scenario}:`,
+    `MOTA ${pct(mot.mota)}`,
+    `MOTP ${pct(mot.motp)}`,
+    `IDF1 ${pct(mot.idf1)}`,
+    `IDSW ${mot.idSwitches}`,
+    `Frag ${mot.fragmentations}`,
+    `FP ${mot.falsePositives}`,
+    `FN ${mot.misses}`,
+    `ROI err ${report.roiCountError}`,
+  ].join(' ');
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { DetectionResult, TrackedObject, Tripwire } from "../types";
+import { Tracker } from "./tracker";
+import { addLineCounts, countLineCrossings, LineCounts } from "./tripwireAnalytics";
+
+// Vertical line at x = 500
+const line: Tripwire = { id: "l1", name: "Gate", color: "#fff", a: { x: 500, y: 0 }, b: { x: 500, y: 1000 } };
+
+const personAt = (cx: number): DetectionResult => ({ label: "person", box_2d: [450, cx - 20, 550, cx + 20] });
+
+// Feed one detection list per update (200 ms apart) and total the crossings
+const run = (frames: DetectionResult[][]): LineCounts => {
+  const tracker = new Tracker({ dropout: { mode: "frames", frames: 5 } });
+  let previous: TrackedObject[] = [];
+  let totals: Record<string, LineCounts> = {};
+  frames.forEach((detections, i) => {
+    const tracks = tracker.update(detections, i * 200);
+    totals = addLineCounts(totals, countLineCrossings(previous, tracks, [line]));
+    previous = tracks;
+  });
+  return totals[line.id] ?? { countAB: 0, countBA: 0 };
+};
+
+describe("tripwire analytics", () => {
+  it("counts a crossing between two detected positions", () => {
+    expect(run([400, 440, 480, 520, 560].map(x => [personAt(x)]))).toEqual({ countAB: 1, countBA: 0 });
+  });
+
+  it("ignores a coasting track whose prediction drifts across the line", () => {
+    // Heading for the line, then never detected again: the prediction crosses it before the track drops
+    const frames = [[personAt(380)], [personAt(420)], [personAt(460)], [], [], [], [], [], []];
+    expect(run(frames)).toEqual({ countAB: 0, countBA: 0 });
+  });
+
+  it("counts the crossing once a coasting track is detected on the other side", () => {
+    const frames = [[personAt(380)], [personAt(420)], [personAt(460)], [], [], [personAt(580)], [personAt(620)]];
+    expect(run(frames)).toEqual({ countAB: 1, countBA: 0 });
+  });
+});
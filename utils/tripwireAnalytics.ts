@@ -0,0 +1,73 @@
+import { Point, TrackedObject, Tripwire, TripwireStats } from "../types";
+import { getCrossingDirection } from "./mathUtils";
+import { getObservedPosition, ZONE_COLORS } from "./roiAnalytics";
+
+// --- Tripwire (Line-Crossing) Analytics ---
+
+export interface LineCounts {
+  countAB: number;
+  countBA: number;
+}
+
+export const createTripwire = (name: string, index: number, a: Point, b: Point): Tripwire => ({
+  id: `line-${Date.now().toString(36)}-${index}`,
+  name,
+  color: ZONE_COLORS[(index + 1) % ZONE_COLORS.length],
+  a,
+  b,
+});
+
+// Test the step between each track's previous and current detected position
+// against every line. Only tracks present in both updates can cross, and only
+// when detected: predicted positions of a coasting track never count.
+export const countLineCrossings = (
+  previousTracks: TrackedObject[],
+  tracks: TrackedObject[],
+  lines: Tripwire[]
+): Record<string, LineCounts> => {
+  const crossings: Record<string, LineCounts> = {};
+  const previousById = new Map(previousTracks.map(t => [t.id, t]));
+
+  for (const line of lines) {
+    const counts: LineCounts = { countAB: 0, countBA: 0 };
+    for (const track of tracks) {
+      const oldTrack = previousById.get(track.id);
+      if (!oldTrack || track.misses > 0) continue;
+
+      const from = getObservedPosition(oldTrack);
+      const to = getObservedPosition(track);
+      if (!from || !to) continue;
+
+      const direction = getCrossingDirection(from, to, line.a, line.b);
+      if (direction === 'AB') counts.countAB++;
+      if (direction === 'BA') counts.countBA++;
+    }
+    crossings[line.id] = counts;
+  }
+  return crossings;
+};
+
+export const addLineCounts = (
+  totals: Record<string, LineCounts>,
+  delta: Record<string, LineCounts>
+): Record<string, LineCounts> => {
+  const result = { ...totals };
+  for (const [lineId, counts] of Object.entries(delta)) {
+    const current = result[lineId] ?? { countAB: 0, countBA: 0 };
+    result[lineId] = {
+      countAB: current.countAB + counts.countAB,
+      countBA: current.countBA + counts.countBA,
+    };
+  }
+  return result;
+};
+
+export const buildLineStats = (lines: Tripwire[], totals: Record<string, LineCounts>): TripwireStats[] => {
+  return lines.map(line => ({
+    lineId: line.id,
+    name: line.name,
+    color: line.color,
+    countAB: totals[line.id]?.countAB ?? 0,
+    countBA: totals[line.id]?.countBA ?? 0,
+  }));
+};
@@ -0,0 +1,48 @@
+// --- HTMLVideoElement Helpers ---
+
+// Resolve once the video knows its duration and dimensions; reject if the
+// file can't be loaded
+export const waitForMetadata = (video: HTMLVideoElement): Promise<void> => {
+  if (video.readyState >= HTMLMediaElement.HAVE_METADATA) return Promise.resolve();
+  if (video.error) return Promise.reject(new Error(video.error.message || 'Video could not be loaded'));
+  return new Promise((resolve, reject) => {
+    const onLoaded = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener('loadedmetadata', onLoaded);
+      reject(new Error(video.error?.message || 'Video could not be loaded'));
+    };
+    video.addEventListener('loadedmetadata', onLoaded, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+};
+
+// Seek and resolve when the frame at `time` is ready to be drawn
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve) => {
+    if (Math.abs(video.currentTime - time) < 1e-6 && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      resolve();
+      return;
+    }
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+};
+
+// --- Camera Devices ---
+
+// Labels stay empty until the page has been granted camera access once
+export const listVideoInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+// '' opens the browser's default camera
+export const openWebcam = (deviceId: string): Promise<MediaStream> => {
+  return navigator.mediaDevices.getUserMedia({
+    video: deviceId ? { deviceId: { exact: deviceId } } : true,
+  });
+};
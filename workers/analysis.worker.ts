@@ -0,0 +1,9 @@
+import { createAnalysisHost } from "./analysisHost";
+import { AnalysisRequest } from "./analysisProtocol";
+
+// One worker per camera tile; see analysisProtocol.ts for the messages
+const handle = createAnalysisHost(response => self.postMessage(response));
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  handle(e.data);
+};
@@ -0,0 +1,58 @@
+import { AnalysisCall, AnalysisCalls, AnalysisCallType, AnalysisNotice, AnalysisResponse } from "./analysisProtocol";
+
+// --- Analysis Worker Client ---
+// Main-thread side of a camera's analysis worker: calls return promises that
+// settle with the worker's response, notices are fire-and-forget.
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class AnalysisClient {
+  private worker: Worker;
+  private nextCallId = 1;
+  private pending = new Map<number, PendingCall>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<AnalysisResponse>) => this.settle(e.data);
+    this.worker.onerror = (e: ErrorEvent) => this.failAll(new Error(`Analysis worker failed: ${e.message}`));
+  }
+
+  // Objects in `transfer` (frames) move to the worker and can't be used here afterwards
+  call<K extends AnalysisCallType>(
+    type: K,
+    args: AnalysisCalls[K]['args'],
+    transfer: Transferable[] = []
+  ): Promise<AnalysisCalls[K]['result']> {
+    const callId = this.nextCallId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(callId, { resolve: resolve as (result: unknown) => void, reject });
+      const message = { kind: 'call', callId, type, args } as AnalysisCall;
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  send(notice: AnalysisNotice): void {
+    this.worker.postMessage({ ...notice, kind: 'notice' });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.failAll(new Error('Analysis worker was stopped'));
+  }
+
+  private settle(response: AnalysisResponse): void {
+    const call = this.pending.get(response.callId);
+    if (!call) return;
+    this.pending.delete(response.callId);
+    if ('error' in response) call.reject(new Error(response.error));
+    else call.resolve(response.result);
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(call => call.reject(error));
+    this.pending.clear();
+  }
+}
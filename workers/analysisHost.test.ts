@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_ANALYSIS_SETTINGS } from "../utils/analysisEngine";
+import { DEFAULT_TRACKER_CONFIG } from "../utils/tracker";
+import { createAnalysisHost, MAX_HELD_FRAMES } from "./analysisHost";
+import { AnalysisResponse } from "./analysisProtocol";
+
+// Node has no OffscreenCanvas; encoding and cropping are covered in the browser
+vi.mock("../utils/frameEncoding", () => ({
+  encodeJpeg: vi.fn(async () => "jpeg"),
+}));
+vi.mock("../utils/appearance", () => ({
+  extractAppearances: vi.fn((_frame: ImageBitmap, detections: unknown[]) => detections.map(() => null)),
+}));
+
+const fakeBitmap = () => ({ close: vi.fn() }) as unknown as ImageBitmap & { close: ReturnType<typeof vi.fn> };
+
+const setup = () => {
+  const responses: AnalysisResponse[] = [];
+  const handle = createAnalysisHost(response => responses.push(response));
+  return { responses, handle };
+};
+
+const person = { label: "person", box_2d: [450, 80, 550, 120] as [number, number, number, number] };
+
+describe("analysis host", () => {
+  it("answers calls with their callId, in order", async () => {
+    const { responses, handle } = setup();
+    handle({ kind: "call", callId: 1, type: "apply", args: { detections: [person], timestamp: 0, videoTime: 0 } });
+    handle({ kind: "notice", type: "reset" });
+    await handle({ kind: "call", callId: 2, type: "getStats", args: null });
+
+    expect(responses.map(r => r.callId)).toEqual([1, 2]);
+    expect(responses[1]).toEqual({ callId: 2, ok: true, result: expect.objectContaining({ stats: expect.objectContaining({ totalObjects: 0 }) }) });
+  });
+
+  it("reports a failed call as an error response", async () => {
+    const { responses, handle } = setup();
+    const args = { detections: null as never, timestamp: 0, videoTime: 0 };
+    await handle({ kind: "call", callId: 7, type: "apply", args });
+    expect(responses).toEqual([{ callId: 7, ok: false, error: expect.any(String) }]);
+  });
+
+  it("keeps encoded frames for appearance crops until they are applied", async () => {
+    const { handle } = setup();
+    const bitmap = fakeBitmap();
+    await handle({ kind: "call", callId: 1, type: "encodeFrame", args: { frameId: 1, bitmap, quality: 0.7 } });
+    expect(bitmap.close).not.toHaveBeenCalled();
+
+    await handle({ kind: "call", callId: 2, type: "apply", args: { detections: [person], timestamp: 0, videoTime: 0, frameId: 1 } });
+    expect(bitmap.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes frames right away while re-identification is off", async () => {
+    const { handle } = setup();
+    const trackerConfig = { ...DEFAULT_TRACKER_CONFIG, reid: { ...DEFAULT_TRACKER_CONFIG.reid, enabled: false } };
+    handle({ kind: "notice", type: "configure", settings: { ...DEFAULT_ANALYSIS_SETTINGS, trackerConfig } });
+    const bitmap = fakeBitmap();
+    await handle({ kind: "call", callId: 1, type: "encodeFrame", args: { frameId: 1, bitmap, quality: 0.7 } });
+    expect(bitmap.close).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the oldest held frames when results never come back", async () => {
+    const { handle } = setup();
+    const bitmaps = Array.from({ length: MAX_HELD_FRAMES + 2 }, fakeBitmap);
+    for (const [i, bitmap] of bitmaps.entries()) {
+      await handle({ kind: "call", callId: i, type: "encodeFrame", args: { frameId: i, bitmap, quality: 0.7 } });
+    }
+    expect(bitmaps.map(b => b.close.mock.calls.length)).toEqual([1, 1, ...new Array(MAX_HELD_FRAMES).fill(0)]);
+
+    await handle({ kind: "notice", type: "releaseFrame", frameId: 2 });
+    expect(bitmaps[2].close).toHaveBeenCalledTimes(1);
+    await handle({ kind: "notice", type: "reset" });
+    expect(bitmaps.every(b => b.close.mock.calls.length === 1)).toBe(true);
+  });
+});
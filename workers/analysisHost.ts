@@ -0,0 +1,110 @@
+import { AnalysisEngine, AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS } from "../utils/analysisEngine";
+import { extractAppearances } from "../utils/appearance";
+import { encodeJpeg } from "../utils/frameEncoding";
+import { AnalysisCalls, AnalysisCallType, AnalysisNotice, AnalysisRequest, AnalysisResponse } from "./analysisProtocol";
+
+// --- Analysis Worker Host ---
+// Message handling for one analysis worker. Kept apart from the worker global
+// scope so tests can drive it directly.
+
+// Frames waiting for their detector result; the oldest are closed beyond this
+// in case a result never comes back
+export const MAX_HELD_FRAMES = 8;
+
+type CallHandlers = {
+  [K in AnalysisCallType]: (args: AnalysisCalls[K]['args']) => AnalysisCalls[K]['result'] | Promise<AnalysisCalls[K]['result']>;
+};
+
+export const createAnalysisHost = (post: (response: AnalysisResponse) => void) => {
+  const engine = new AnalysisEngine();
+  let settings: AnalysisSettings = DEFAULT_ANALYSIS_SETTINGS;
+  const heldFrames = new Map<number, ImageBitmap>();
+
+  const holdFrame = (frameId: number, bitmap: ImageBitmap) => {
+    heldFrames.set(frameId, bitmap);
+    for (const [id, oldest] of heldFrames) {
+      if (heldFrames.size <= MAX_HELD_FRAMES) break;
+      oldest.close();
+      heldFrames.delete(id);
+    }
+  };
+
+  const takeFrame = (frameId: number | undefined): ImageBitmap | undefined => {
+    if (frameId === undefined) return undefined;
+    const bitmap = heldFrames.get(frameId);
+    heldFrames.delete(frameId);
+    return bitmap;
+  };
+
+  const releaseAllFrames = () => {
+    heldFrames.forEach(bitmap => bitmap.close());
+    heldFrames.clear();
+  };
+
+  const calls: CallHandlers = {
+    encodeFrame: async ({ frameId, bitmap, quality }) => {
+      let base64: string;
+      try {
+        base64 = await encodeJpeg(bitmap, quality);
+      } catch (e) {
+        bitmap.close();
+        throw e;
+      }
+      // Appearance crops are only needed for re-identification
+      if (settings.trackerConfig.reid.enabled) holdFrame(frameId, bitmap);
+      else bitmap.close();
+      return base64;
+    },
+    apply: ({ detections, timestamp, videoTime, frameId, bitmap }) => {
+      const frame = bitmap ?? takeFrame(frameId);
+      try {
+        return engine.apply(detections, timestamp, videoTime, frame ? (filtered => extractAppearances(frame, filtered)) : undefined);
+      } finally {
+        frame?.close();
+      }
+    },
+    getStats: () => engine.getStats(),
+    getMotHistory: () => engine.getMotHistory(),
+    getHeatmap: () => engine.getHeatmap(),
+  };
+
+  const handleNotice = (notice: AnalysisNotice) => {
+    switch (notice.type) {
+      case 'configure':
+        settings = notice.settings;
+        engine.configure(notice.settings);
+        if (!settings.trackerConfig.reid.enabled) releaseAllFrames();
+        break;
+      case 'reset':
+        engine.reset();
+        releaseAllFrames();
+        break;
+      case 'resetHeatmap':
+        engine.resetHeatmap();
+        break;
+      case 'releaseFrame':
+        takeFrame(notice.frameId)?.close();
+        break;
+    }
+  };
+
+  const handle = async (request: AnalysisRequest) => {
+    if (request.kind === 'notice') {
+      handleNotice(request);
+      return;
+    }
+    try {
+      const handler = calls[request.type] as (args: unknown) => ReturnType<CallHandlers[AnalysisCallType]>;
+      post({ callId: request.callId, ok: true, result: await handler(request.args) });
+    } catch (e) {
+      post({ callId: request.callId, ok: false, error: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  // Encoding is async; later messages wait for it so they are still handled in order
+  let queue = Promise.resolve();
+  return (request: AnalysisRequest): Promise<void> => {
+    queue = queue.then(() => handle(request));
+    return queue;
+  };
+};
@@ -0,0 +1,43 @@
+import { DetectionResult } from "../types";
+import { AnalysisSettings, AnalysisUpdate, StatsUpdate } from "../utils/analysisEngine";
+import { Heatmap } from "../utils/heatmap";
+import { MotRecord } from "../utils/motFormat";
+
+// --- Analysis Worker Protocol ---
+// Messages between a camera's canvas and its analysis worker. Calls get exactly
+// one response with the same `callId`; notices get none. The worker handles
+// messages strictly in the order they were posted.
+
+// Call name -> arguments and result
+export interface AnalysisCalls {
+  // JPEG-encode a captured frame for the detector. While re-identification is
+  // on, the worker keeps the frame under `frameId` until `apply` or `releaseFrame`.
+  encodeFrame: { args: { frameId: number; bitmap: ImageBitmap; quality: number }; result: string };
+  // Run a detector result through tracking and analytics. Appearance crops come
+  // from the kept frame `frameId`, or from `bitmap` (replays, which hold no pixels).
+  apply: {
+    args: { detections: DetectionResult[]; timestamp: number; videoTime: number; frameId?: number; bitmap?: ImageBitmap };
+    result: AnalysisUpdate;
+  };
+  getStats: { args: null; result: StatsUpdate };
+  getMotHistory: { args: null; result: MotRecord[] };
+  getHeatmap: { args: null; result: Heatmap };
+}
+
+export type AnalysisCallType = keyof AnalysisCalls;
+
+export type AnalysisCall = {
+  [K in AnalysisCallType]: { kind: 'call'; callId: number; type: K; args: AnalysisCalls[K]['args'] };
+}[AnalysisCallType];
+
+export type AnalysisNotice =
+  | { type: 'configure'; settings: AnalysisSettings }
+  | { type: 'reset' }
+  | { type: 'resetHeatmap' }
+  | { type: 'releaseFrame'; frameId: number }; // Its detector result won't be applied
+
+export type AnalysisRequest = AnalysisCall | (AnalysisNotice & { kind: 'notice' });
+
+export type AnalysisResponse =
+  | { callId: number; ok: true; result: AnalysisCalls[AnalysisCallType]['result'] }
+  | { callId: number; ok: false; error: string };